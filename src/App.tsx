@@ -1,10 +1,12 @@
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import Dashboard from './components/dashboard/Dashboard';
 import LoginScreen from './components/login/LoginScreen';
+import NotificationCenter from './components/notifications/NotificationCenter';
+import { ROLE_LABELS } from './utils/permissions';
 import styles from './App.module.css';
 
 function AppContent() {
-  const { user, loading, logout } = useAuth();
+  const { user, role, loading, logout } = useAuth();
 
   if (loading) {
     return (
@@ -18,6 +20,18 @@ function AppContent() {
     return <LoginScreen />;
   }
 
+  if (!role) {
+    return (
+      <div className={styles.noAccess}>
+        <p>🔒 Vaš račun nema dodijeljenu ulogu.</p>
+        <p className={styles.noAccessHint}>Obratite se administratoru za pristup portalu.</p>
+        <button onClick={logout} className={styles.logoutButton}>
+          Odjava
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className={styles.container}>
       <header className={styles.header}>
@@ -26,9 +40,13 @@ function AppContent() {
             <h1 className={styles.title}>📍 Prizma Tracker - Admin Portal</h1>
             <p className={styles.subtitle}>Live praćenje radnika i terena</p>
           </div>
-          <button onClick={logout} className={styles.logoutButton}>
-            Odjava
-          </button>
+          <div className={styles.headerActions}>
+            <span className={styles.roleBadge}>{ROLE_LABELS[role]}</span>
+            <NotificationCenter key={user.uid} uid={user.uid} />
+            <button onClick={logout} className={styles.logoutButton}>
+              Odjava
+            </button>
+          </div>
         </div>
       </header>
       
@@ -0,0 +1,325 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { Session } from '../../types';
+import { fetchAllSessions } from '../../utils/sessionQuery';
+import { loadCompletedSessionLocations } from '../../utils/sessionPoints';
+import { formatDuration } from '../../utils/statistics';
+import {
+  ANALYTICS_PERIOD_LABELS,
+  aggregateByDay,
+  aggregateByWorker,
+  computeRouteStatsSummary,
+  computeSessionMetrics,
+  getFlyersPerHour,
+  getFlyersPerKm,
+  getPeriodRange,
+  getWalkingSpeedKmh,
+  needsRouteStats,
+  sumMetrics,
+  type AnalyticsPeriod,
+  type RouteStatsSummary,
+  type SessionMetrics,
+  type WorkerAnalytics,
+} from '../../utils/analytics';
+import BarChart from './BarChart';
+import styles from './Analytics.module.css';
+
+interface AnalyticsProps {
+  territoryScope: string[] | null;
+  canUpdateSessions: boolean;
+}
+
+// Sessions without stored route stats load their points a few at a time
+const ROUTE_STATS_CONCURRENCY = 4;
+
+type SortKey = 'workerName' | 'sessions' | 'distance' | 'duration' | 'walkingSpeed' | 'flyers' | 'flyersPerHour' | 'flyersPerKm';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'workerName', label: 'Radnik' },
+  { key: 'sessions', label: 'Sesije' },
+  { key: 'distance', label: 'Udaljenost' },
+  { key: 'duration', label: 'Radno vrijeme' },
+  { key: 'walkingSpeed', label: 'Brzina hoda' },
+  { key: 'flyers', label: 'Letci' },
+  { key: 'flyersPerHour', label: 'Letci / h' },
+  { key: 'flyersPerKm', label: 'Letci / km' },
+];
+
+function getSortValue(worker: WorkerAnalytics, key: SortKey): number | string {
+  switch (key) {
+    case 'walkingSpeed': return getWalkingSpeedKmh(worker);
+    case 'flyersPerHour': return getFlyersPerHour(worker);
+    case 'flyersPerKm': return getFlyersPerKm(worker);
+    default: return worker[key];
+  }
+}
+
+function formatDayLabel(date: string): string {
+  const [, month, day] = date.split('-');
+  return `${Number(day)}.${Number(month)}.`;
+}
+
+function Analytics({ territoryScope, canUpdateSessions }: AnalyticsProps) {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+  const [workerId, setWorkerId] = useState('');
+  const [metricsState, setMetricsState] = useState<{ key: string; metrics: SessionMetrics[] } | null>(null);
+  const [progress, setProgress] = useState<{ key: string; text: string } | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('distance');
+  const [sortAsc, setSortAsc] = useState(false);
+  // Summaries this viewer couldn't store survive period changes; keyed by pointsCount so edits invalidate them
+  const summaryCacheRef = useRef<Map<string, RouteStatsSummary>>(new Map());
+
+  const range = useMemo(() => getPeriodRange(period, new Date()), [period]);
+  const periodKey = `${range.dateFrom}_${range.dateTo}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    const key = `${range.dateFrom}_${range.dateTo}`;
+
+    const loadMetrics = async () => {
+      try {
+        const sessions = (await fetchAllSessions(range, territoryScope)).filter(s => s.status !== 'active');
+        const summaries = new Map<string, RouteStatsSummary>();
+        const pending: Session[] = [];
+
+        sessions.forEach(session => {
+          const cached = summaryCacheRef.current.get(session.id);
+          if (!needsRouteStats(session)) {
+            summaries.set(session.id, {
+              routeDistance: session.routeDistance || 0,
+              routeStoppedTime: session.routeStoppedTime || 0,
+              routeStatsPointsCount: session.routeStatsPointsCount || 0,
+            });
+          } else if (cached && cached.routeStatsPointsCount === (session.pointsCount || 0)) {
+            summaries.set(session.id, cached);
+          } else {
+            pending.push(session);
+          }
+        });
+
+        let done = 0;
+        const worker = async () => {
+          while (pending.length > 0 && !cancelled) {
+            const session = pending.shift()!;
+            summaries.set(session.id, await getSummary(session));
+            done++;
+            if (!cancelled) setProgress({ key, text: `Obrađujem sesije ${done}/${done + pending.length}...` });
+          }
+        };
+        await Promise.all(Array.from({ length: ROUTE_STATS_CONCURRENCY }, worker));
+
+        if (!cancelled) {
+          setMetricsState({ key, metrics: sessions.map(s => computeSessionMetrics(s, summaries.get(s.id)!)) });
+        }
+      } catch (error) {
+        console.error('Error loading analytics:', error);
+        if (!cancelled) setMetricsState({ key, metrics: [] });
+      }
+    };
+
+    const getSummary = async (session: Session) => {
+      const points = await loadCompletedSessionLocations(session.id, session.pointsCount);
+      const summary = computeRouteStatsSummary(session, points);
+      summaryCacheRef.current.set(session.id, summary);
+
+      // Stored once so later periods and other viewers skip the points
+      if (canUpdateSessions) {
+        try {
+          await updateDoc(doc(db, 'sessions', session.id), { ...summary });
+        } catch (error) {
+          console.error(`Error saving route stats for session ${session.id}:`, error);
+        }
+      }
+      return summary;
+    };
+
+    loadMetrics();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, territoryScope, canUpdateSessions]);
+
+  const metrics = useMemo(
+    () => metricsState?.key === periodKey ? metricsState.metrics : null,
+    [metricsState, periodKey]
+  );
+
+  const workers = useMemo(() => aggregateByWorker(metrics || []), [metrics]);
+
+  const sortedWorkers = useMemo(() => {
+    return [...workers].sort((a, b) => {
+      const aValue = getSortValue(a, sortKey);
+      const bValue = getSortValue(b, sortKey);
+      const result = typeof aValue === 'string'
+        ? aValue.localeCompare(bValue as string, 'hr')
+        : aValue - (bValue as number);
+      return sortAsc ? result : -result;
+    });
+  }, [workers, sortKey, sortAsc]);
+
+  const selectedMetrics = useMemo(
+    () => (metrics || []).filter(m => !workerId || m.workerId === workerId),
+    [metrics, workerId]
+  );
+  const days = useMemo(
+    () => aggregateByDay(selectedMetrics, range.dateFrom, range.dateTo),
+    [selectedMetrics, range]
+  );
+  const totals = sumMetrics(selectedMetrics);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'workerName');
+    }
+  };
+
+  const chartData = (getValue: (day: typeof days[number]) => number) =>
+    days.map(day => ({ label: formatDayLabel(day.date), value: getValue(day) }));
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.toolbar}>
+        <h2>Analitika</h2>
+        <div className={styles.controls}>
+          <select
+            className={styles.select}
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}>
+            {(Object.keys(ANALYTICS_PERIOD_LABELS) as AnalyticsPeriod[]).map(key => (
+              <option key={key} value={key}>{ANALYTICS_PERIOD_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            className={styles.select}
+            value={workerId}
+            onChange={(e) => setWorkerId(e.target.value)}>
+            <option value="">Svi radnici</option>
+            {[...workers].sort((a, b) => a.workerName.localeCompare(b.workerName, 'hr')).map(worker => (
+              <option key={worker.workerId} value={worker.workerId}>{worker.workerName}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!metrics ? (
+        <div className={styles.loading}>
+          <div className={styles.spinner}></div>
+          <p>{progress?.key === periodKey ? progress.text : 'Učitavam sesije...'}</p>
+        </div>
+      ) : (
+        <>
+          <div className={styles.summaryGrid}>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Sesije</span>
+              <span className={styles.summaryValue}>{totals.sessions}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Udaljenost</span>
+              <span className={styles.summaryValue}>{(totals.distance / 1000).toFixed(1)} km</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Radno vrijeme</span>
+              <span className={styles.summaryValue}>{formatDuration(totals.duration)}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Brzina hoda</span>
+              <span className={styles.summaryValue}>{getWalkingSpeedKmh(totals).toFixed(1)} km/h</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Letci / h</span>
+              <span className={styles.summaryValue}>{getFlyersPerHour(totals).toFixed(0)}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Letci / km</span>
+              <span className={styles.summaryValue}>{getFlyersPerKm(totals).toFixed(0)}</span>
+            </div>
+          </div>
+
+          <div className={styles.chartGrid}>
+            <BarChart
+              title="Udaljenost po danu"
+              data={chartData(day => day.distance / 1000)}
+              formatValue={value => `${value.toFixed(1)} km`}
+            />
+            <BarChart
+              title="Radni sati po danu"
+              data={chartData(day => day.duration / 3600)}
+              formatValue={value => `${value.toFixed(1)} h`}
+              color="#6366F1"
+            />
+            <BarChart
+              title="Brzina hoda"
+              data={chartData(getWalkingSpeedKmh)}
+              formatValue={value => `${value.toFixed(1)} km/h`}
+              color="#F59E0B"
+            />
+            <BarChart
+              title="Letci po satu"
+              data={chartData(getFlyersPerHour)}
+              formatValue={value => value.toFixed(0)}
+              color="#EC4899"
+            />
+            <BarChart
+              title="Letci po km"
+              data={chartData(getFlyersPerKm)}
+              formatValue={value => value.toFixed(0)}
+              color="#8B5CF6"
+            />
+            <BarChart
+              title="Broj sesija"
+              data={chartData(day => day.sessions)}
+              formatValue={value => value.toFixed(0)}
+              color="#0EA5E9"
+            />
+          </div>
+
+          {sortedWorkers.length === 0 ? (
+            <div className={styles.emptyState}>
+              <p className={styles.emptyIcon}>📈</p>
+              <p className={styles.emptyText}>Nema završenih sesija u razdoblju</p>
+            </div>
+          ) : (
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    {COLUMNS.map(column => (
+                      <th key={column.key} onClick={() => handleSort(column.key)}>
+                        {column.label}
+                        {sortKey === column.key && (sortAsc ? ' ▲' : ' ▼')}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedWorkers.map(worker => (
+                    <tr
+                      key={worker.workerId}
+                      className={worker.workerId === workerId ? styles.rowActive : ''}
+                      onClick={() => setWorkerId(worker.workerId === workerId ? '' : worker.workerId)}>
+                      <td>{worker.workerName}</td>
+                      <td>{worker.sessions}</td>
+                      <td>{(worker.distance / 1000).toFixed(1)} km</td>
+                      <td>{formatDuration(worker.duration)}</td>
+                      <td>{getWalkingSpeedKmh(worker).toFixed(1)} km/h</td>
+                      <td>{worker.flyers}</td>
+                      <td>{getFlyersPerHour(worker).toFixed(0)}</td>
+                      <td>{getFlyersPerKm(worker).toFixed(0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Analytics;
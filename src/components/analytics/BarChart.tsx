@@ -0,0 +1,69 @@
+import styles from './Analytics.module.css';
+
+interface BarChartProps {
+  title: string;
+  data: { label: string; value: number }[];
+  formatValue: (value: number) => string;
+  color?: string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING_BOTTOM = 18;
+const PADDING_TOP = 8;
+const MAX_AXIS_LABELS = 7;
+
+function BarChart({ title, data, formatValue, color = '#10B981' }: BarChartProps) {
+  const maxValue = Math.max(0, ...data.map(d => d.value));
+  const chartHeight = HEIGHT - PADDING_BOTTOM - PADDING_TOP;
+  const slot = data.length > 0 ? WIDTH / data.length : WIDTH;
+  const barWidth = Math.max(1, slot * 0.7);
+  const labelEvery = Math.max(1, Math.ceil(data.length / MAX_AXIS_LABELS));
+
+  return (
+    <div className={styles.chartCard}>
+      <div className={styles.chartHeader}>
+        <span className={styles.chartTitle}>{title}</span>
+        <span className={styles.chartMax}>maks. {formatValue(maxValue)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className={styles.chart}>
+        <line
+          x1={0}
+          x2={WIDTH}
+          y1={HEIGHT - PADDING_BOTTOM}
+          y2={HEIGHT - PADDING_BOTTOM}
+          className={styles.chartAxis}
+        />
+        {data.map((d, index) => {
+          const height = maxValue > 0 ? (d.value / maxValue) * chartHeight : 0;
+          const x = index * slot + (slot - barWidth) / 2;
+
+          return (
+            <g key={d.label}>
+              <rect
+                x={x}
+                y={HEIGHT - PADDING_BOTTOM - height}
+                width={barWidth}
+                height={height}
+                rx={Math.min(2, barWidth / 2)}
+                fill={color}>
+                <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+              </rect>
+              {index % labelEvery === 0 && (
+                <text
+                  x={index * slot + slot / 2}
+                  y={HEIGHT - 4}
+                  textAnchor="middle"
+                  className={styles.chartLabel}>
+                  {d.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
+export default BarChart;
@@ -0,0 +1,256 @@
+import { useState, useEffect, useMemo } from 'react';
+import { limit, onSnapshot, type QueryDocumentSnapshot, type DocumentData } from 'firebase/firestore';
+import type { AuditAction, AuditEntry } from '../../types';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_PAGE_SIZE,
+  buildAuditLogQuery,
+  exportAuditLogToCSV,
+  fetchAllAuditEntries,
+  fetchAuditLogPage,
+  formatAuditChanges,
+  toAuditEntry,
+  type AuditLogFilters,
+} from '../../utils/auditLog';
+import styles from './AuditLog.module.css';
+
+const TARGET_LABELS: Record<AuditEntry['targetType'], string> = {
+  session: 'Sesija',
+  territory: 'Teren',
+  worker: 'Radnik',
+  export: 'Izvoz',
+};
+
+interface AuditPageState {
+  key: string; // the filters the page was loaded for
+  entries: AuditEntry[];
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+function AuditLog() {
+  const [firstPageState, setFirstPageState] = useState<AuditPageState | null>(null);
+  const [olderPagesState, setOlderPagesState] = useState<AuditPageState | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [knownActors, setKnownActors] = useState<string[]>([]);
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const filters = useMemo<AuditLogFilters>(
+    () => ({ actorEmail: actor, action, dateFrom, dateTo }),
+    [actor, action, dateFrom, dateTo]
+  );
+  const filtersKey = JSON.stringify(filters);
+
+  // Only the newest page is live; older pages are fetched on demand with a cursor
+  useEffect(() => {
+    const unsubscribe = onSnapshot(buildAuditLogQuery(filters, limit(AUDIT_PAGE_SIZE)), (snapshot) => {
+      const entries = snapshot.docs.map(toAuditEntry);
+      setFirstPageState({
+        key: filtersKey,
+        entries,
+        lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+        hasMore: snapshot.docs.length === AUDIT_PAGE_SIZE,
+      });
+
+      // Entries never change, so one pushed off the first page still matches
+      // the filters and belongs at the top of the older pages
+      const pushedOut = snapshot.docChanges()
+        .filter(change => change.type === 'removed')
+        .map(change => toAuditEntry(change.doc));
+      if (pushedOut.length > 0) {
+        setOlderPagesState(prev => prev?.key === filtersKey
+          ? { ...prev, entries: [...pushedOut, ...prev.entries] }
+          : prev);
+      }
+
+      // The actor filter narrows the results, so the options remember every actor seen
+      setKnownActors(prev => {
+        const emails = entries.map(entry => entry.actorEmail).filter((email): email is string => !!email);
+        if (emails.every(email => prev.includes(email))) return prev;
+        return Array.from(new Set([...prev, ...emails])).sort((a, b) => a.localeCompare(b, 'hr'));
+      });
+    }, (error) => {
+      console.error('Error loading audit log:', error);
+      setFirstPageState({ key: filtersKey, entries: [], lastDoc: null, hasMore: false });
+    });
+
+    return () => unsubscribe();
+  }, [filters, filtersKey]);
+
+  // Pages loaded for other filters are ignored until the new ones arrive
+  const firstPage = firstPageState?.key === filtersKey ? firstPageState : null;
+  const olderPages = olderPagesState?.key === filtersKey ? olderPagesState : null;
+  const loading = firstPageState === null;
+
+  const entries = useMemo(() => {
+    const seen = new Set<string>();
+    return [...(firstPage?.entries || []), ...(olderPages?.entries || [])].filter(entry => {
+      if (seen.has(entry.id)) return false;
+      seen.add(entry.id);
+      return true;
+    });
+  }, [firstPage, olderPages]);
+
+  const hasMore = olderPages ? olderPages.hasMore : !!firstPage?.hasMore;
+  const actors = actor && !knownActors.includes(actor) ? [actor, ...knownActors] : knownActors;
+  const hasFilters = !!(actor || action || dateFrom || dateTo);
+
+  const resetFilters = () => {
+    setActor('');
+    setAction('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  const handleLoadMore = async () => {
+    const cursor = olderPages?.lastDoc || firstPage?.lastDoc;
+    if (!cursor || loadingMore) return;
+
+    const key = filtersKey;
+    setLoadingMore(true);
+    try {
+      const page = await fetchAuditLogPage(filters, cursor);
+      setOlderPagesState(prev => ({
+        key,
+        entries: [...(prev?.key === key ? prev.entries : []), ...page.entries],
+        lastDoc: page.lastDoc || cursor,
+        hasMore: page.hasMore,
+      }));
+    } catch (error) {
+      console.error('Error loading more audit entries:', error);
+      alert('Greška pri učitavanju revizije');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Exports every matching entry, not just the loaded pages
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      exportAuditLogToCSV(await fetchAllAuditEntries(filters));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      alert('Greška pri izvozu revizije');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={styles.loading}>
+        <div className={styles.spinner}></div>
+        <p>Učitavam reviziju...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.toolbar}>
+        <h2>Revizija</h2>
+        <button
+          className={styles.secondaryButton}
+          disabled={entries.length === 0 || exporting}
+          onClick={handleExport}>
+          {exporting ? 'Izvozim...' : '📄 Izvoz CSV'}
+        </button>
+      </div>
+
+      <div className={styles.filters}>
+        <select className={styles.input} value={actor} onChange={(e) => setActor(e.target.value)}>
+          <option value="">Svi korisnici</option>
+          {actors.map(email => (
+            <option key={email} value={email}>{email}</option>
+          ))}
+        </select>
+        <select
+          className={styles.input}
+          value={action}
+          onChange={(e) => setAction(e.target.value as AuditAction | '')}>
+          <option value="">Sve radnje</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(key => (
+            <option key={key} value={key}>{AUDIT_ACTION_LABELS[key]}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          className={styles.input}
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+        />
+        <input
+          type="date"
+          className={styles.input}
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+        />
+        {hasFilters && (
+          <button className={styles.secondaryButton} onClick={resetFilters}>
+            ✕ Poništi
+          </button>
+        )}
+      </div>
+
+      {!firstPage ? (
+        <div className={styles.loading}>
+          <div className={styles.spinner}></div>
+          <p>Učitavam reviziju...</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className={styles.emptyState}>
+          <div className={styles.emptyIcon}>🧾</div>
+          <p className={styles.emptyText}>Nema zapisa za odabrane filtere</p>
+        </div>
+      ) : (
+        <div className={styles.tableWrapper}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Vrijeme</th>
+                <th>Korisnik</th>
+                <th>Radnja</th>
+                <th>Objekt</th>
+                <th>Opis</th>
+                <th>Promjene</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id}>
+                  <td className={styles.nowrap}>
+                    {entry.timestamp?.toDate?.()?.toLocaleString('hr-HR') || '...'}
+                  </td>
+                  <td>
+                    {entry.automatic ? (
+                      <span className={styles.systemBadge}>⚙️ Sustav</span>
+                    ) : (
+                      entry.actorEmail || '-'
+                    )}
+                  </td>
+                  <td className={styles.nowrap}>{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                  <td className={styles.nowrap}>{TARGET_LABELS[entry.targetType] || entry.targetType}</td>
+                  <td>{entry.description}</td>
+                  <td className={styles.changes}>{formatAuditChanges(entry)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {firstPage && hasMore && (
+        <button className={styles.loadMoreButton} disabled={loadingMore} onClick={handleLoadMore}>
+          {loadingMore ? 'Učitavam...' : `Učitaj još (${entries.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default AuditLog;
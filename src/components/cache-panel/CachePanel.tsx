@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { cacheService, CACHE_BUDGET_OPTIONS, type CacheStats } from '../../utils/cacheService';
+import styles from './CachePanel.module.css';
+
+const STATS_REFRESH_MS = 5000;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function CachePanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refreshStats = async () => {
+    setStats(await cacheService.getCacheStats());
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadStats = async () => {
+      setStats(await cacheService.getCacheStats());
+    };
+
+    loadStats();
+    const interval = setInterval(loadStats, STATS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await refreshStats();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClearAll = () => {
+    if (!confirm('Obrisati sve spremljene GPS točke? Podaci će se ponovno učitati iz baze.')) return;
+    runAction(() => cacheService.clearAllCaches());
+  };
+
+  if (!isOpen) {
+    return (
+      <button className={styles.toggleButton} onClick={() => setIsOpen(true)} title="Lokalna predmemorija">
+        💾
+      </button>
+    );
+  }
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.header}>
+        <strong>💾 Lokalna predmemorija</strong>
+        <button className={styles.closeButton} onClick={() => setIsOpen(false)}>✕</button>
+      </div>
+
+      {stats ? (
+        <>
+          <div className={styles.statRow}>
+            <span>Sesija</span>
+            <span>{stats.totalSessions}</span>
+          </div>
+          <div className={styles.statRow}>
+            <span>GPS točaka</span>
+            <span>{stats.totalPoints.toLocaleString('hr-HR')}</span>
+          </div>
+          <div className={styles.statRow}>
+            <span>Zauzeće</span>
+            <span>{formatBytes(stats.totalBytes)} / {formatBytes(stats.budgetBytes)}</span>
+          </div>
+          <div className={styles.usageBar}>
+            <div
+              className={styles.usageFill}
+              style={{ width: `${Math.min(100, (stats.totalBytes / stats.budgetBytes) * 100)}%` }}
+            />
+          </div>
+
+          <label className={styles.statRow}>
+            <span>Ograničenje</span>
+            <select
+              className={styles.select}
+              value={stats.budgetBytes}
+              disabled={busy}
+              onChange={(e) => runAction(() => cacheService.setBudget(Number(e.target.value)))}>
+              {CACHE_BUDGET_OPTIONS.map(bytes => (
+                <option key={bytes} value={bytes}>{formatBytes(bytes)}</option>
+              ))}
+            </select>
+          </label>
+        </>
+      ) : (
+        <p className={styles.loading}>Učitavam...</p>
+      )}
+
+      <div className={styles.actions}>
+        <button
+          className={styles.actionButton}
+          disabled={busy}
+          onClick={() => runAction(() => cacheService.clearOldCaches())}>
+          Očisti stare
+        </button>
+        <button
+          className={`${styles.actionButton} ${styles.dangerButton}`}
+          disabled={busy}
+          onClick={handleClearAll}>
+          Očisti sve
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CachePanel;
@@ -1,165 +1,413 @@
-import { useState, useEffect } from 'react';
-import { collection, query, where, onSnapshot, updateDoc, doc } from 'firebase/firestore';
+import { useState, useEffect, useRef, useMemo, useSyncExternalStore } from 'react';
+import { collection, query, where, limit, onSnapshot, updateDoc, doc, getDoc, type DocumentData, type QueryDocumentSnapshot } from 'firebase/firestore';
 import { db } from '../../config/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import { isTerritoryRestricted, type Permission } from '../../utils/permissions';
+import {
+  AUTO_CLOSE_CHECK_INTERVAL_MS,
+  SESSION_STATUS_LABELS,
+  loadLifecycleRules,
+  runAutoClose,
+  saveLifecycleRules,
+  type LifecycleRules,
+} from '../../utils/sessionLifecycle';
+import { loadAlertConfig, saveAlertConfig, type AlertConfig } from '../../utils/liveAlerts';
+import { useLiveAlerts } from '../../utils/useLiveAlerts';
+import { useLivePoints } from '../../utils/useLivePoints';
+import { useSessionNotifications } from '../../utils/useSessionNotifications';
 import LiveMap from '../live-map/LiveMap';
 import SessionMap from '../session-map/SessionMap';
-import type { Session, FilterState } from '../../types';
+import type { Session, SessionStatus, FilterState } from '../../types';
+import { parseTerritoryBoundary } from '../../utils/geometry';
+import { computeGeofenceSummary, needsGeofenceSummary } from '../../utils/geofence';
+import { loadCompletedSessionLocations, prefetchSessionLocations, PREFETCH_SESSION_COUNT } from '../../utils/sessionPoints';
+import {
+  DEFAULT_PATH,
+  buildPath,
+  filtersFromSearch,
+  filtersToParams,
+  navigate,
+  navigateBack,
+  useRoute,
+  workerIdsFromSearch,
+  workerIdsToParams,
+  type AppView,
+} from '../../utils/router';
+import {
+  EMPTY_FILTERS,
+  SESSION_PAGE_SIZE,
+  buildSessionQuery,
+  compareSessionDocs,
+  countSessions,
+  countSessionsEndedBetween,
+  fetchAllSessions,
+  fetchSessionPage,
+  getScopeGroups,
+  matchesSessionFilters,
+  onScopedSnapshot,
+  splitTerritoryScope,
+  toSession,
+} from '../../utils/sessionQuery';
 import Filters from '../filters/Filters';
 import BottomSheet from '../bottom-sheet/BottomSheet';
 import WorkerFilter from '../worker-filter/WorkerFilter';
+import WorkerManagement from '../worker-management/WorkerManagement';
+import TerritoryManagement from '../territory-management/TerritoryManagement';
+import AuditLog from '../audit-log/AuditLog';
+import Analytics from '../analytics/Analytics';
+import Reconciliation from '../reconciliation/Reconciliation';
+import SessionExport from '../session-export/SessionExport';
+import PeriodReport from '../period-report/PeriodReport';
+import LifecyclePanel from '../session-lifecycle/LifecyclePanel';
+import AlertPanel from '../live-alerts/AlertPanel';
 import styles from './Dashboard.module.css';
 
+const STATUS_CLASSES: Record<SessionStatus, string> = {
+  active: styles.statusActive,
+  completed: styles.statusCompleted,
+  auto_completed: styles.statusAutoCompleted,
+};
+
+const VIEW_PERMISSIONS: Record<AppView, Permission> = {
+  live: 'viewLive',
+  history: 'viewHistory',
+  workers: 'manageWorkers',
+  territories: 'manageTerritories',
+  audit: 'viewAuditLog',
+  analytics: 'viewAnalytics',
+  reconciliation: 'viewReconciliation',
+};
+
+const NO_SESSIONS: Session[] = [];
+
+// Matches the breakpoint where the history map moves into the bottom sheet
+const COMPACT_LAYOUT_QUERY = '(max-width: 1023px)';
+
+function subscribeToLayout(callback: () => void): () => void {
+  const mediaQuery = window.matchMedia(COMPACT_LAYOUT_QUERY);
+  mediaQuery.addEventListener('change', callback);
+  return () => mediaQuery.removeEventListener('change', callback);
+}
+
+function getIsCompactLayout(): boolean {
+  return window.matchMedia(COMPACT_LAYOUT_QUERY).matches;
+}
+
+function compareStartTimeDesc(a: Session, b: Session): number {
+  return (b.startTime?.toMillis?.() || 0) - (a.startTime?.toMillis?.() || 0);
+}
+
+interface SessionPageState {
+  key: string; // the filters the page was loaded for
+  sessions: Session[];
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
 function Dashboard() {
+  const { can, canAccessTerritory, role, profile, user } = useAuth();
   const [activeSessions, setActiveSessions] = useState<Session[]>([]);
-  const [allSessions, setAllSessions] = useState<Session[]>([]);
+  const [firstPageState, setFirstPageState] = useState<SessionPageState | null>(null);
+  const [olderPagesState, setOlderPagesState] = useState<SessionPageState | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filteredCountState, setFilteredCountState] = useState<{ key: string; count: number } | null>(null);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [completedTodayCount, setCompletedTodayCount] = useState<number | null>(null);
+  const [selectedSessionDoc, setSelectedSessionDoc] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<'live' | 'history'>('live');
-  const [selectedSession, setSelectedSession] = useState<Session | null>(null);
-  const [isBottomSheetOpen, setIsBottomSheetOpen] = useState(false);
-  const [selectedWorkerIds, setSelectedWorkerIds] = useState<string[]>([]);
-  const [filters, setFilters] = useState<FilterState>({
-    workerId: '',
-    territoryId: '',
-    status: 'all',
-    dateFrom: '',
-    dateTo: '',
-  });
+  const [lifecycleRules, setLifecycleRules] = useState<LifecycleRules>(loadLifecycleRules);
+  const [alertConfig, setAlertConfig] = useState<AlertConfig>(loadAlertConfig);
+  const isCompactLayout = useSyncExternalStore(subscribeToLayout, getIsCompactLayout);
+  // Remembers each view's query string, so switching views keeps their filters
+  const viewSearchRef = useRef<Partial<Record<AppView, string>>>({});
+
+  const route = useRoute();
+  const viewMode: AppView = route?.view || 'live';
+  const isRouteAllowed = !!route && can(VIEW_PERMISSIONS[route.view]);
+  const routeSearch = route?.search || '';
+
+  const filterSearch = viewMode === 'history' ? routeSearch : '';
+  const filters = useMemo(
+    () => filtersFromSearch(filterSearch, canAccessTerritory),
+    [filterSearch, canAccessTerritory]
+  );
+  const filtersKey = filtersToParams(filters).toString();
+  const selectedSessionId = viewMode === 'history' ? route?.id || null : null;
+  const editingTerritoryId = viewMode === 'territories' ? route?.id || null : null;
+  const selectedWorkerIds = useMemo(
+    () => viewMode === 'live' ? workerIdsFromSearch(routeSearch) : [],
+    [viewMode, routeSearch]
+  );
+
+  const canAutoClose = can('autoCloseSessions');
+  const canUpdateSessions = can('updateSessions');
+  const canViewAlerts = can('viewLiveAlerts');
+
+  // null means unrestricted; viewers get the territories they were assigned
+  const territoryScope = useMemo(
+    () => isTerritoryRestricted(role) ? profile?.territoryIds || [] : null,
+    [role, profile]
+  );
+
+  // A viewer without territories has nothing to subscribe to
+  const hasNoTerritories = territoryScope?.length === 0;
 
   useEffect(() => {
-    const activeQuery = query(
-      collection(db, 'sessions'),
-      where('status', '==', 'active')
+    if (territoryScope?.length === 0) return;
+
+    const unsubscribe = onScopedSnapshot(
+      splitTerritoryScope(territoryScope),
+      (scopeGroup) => query(
+        collection(db, 'sessions'),
+        where('status', '==', 'active'),
+        ...(scopeGroup ? [where('territoryId', 'in', scopeGroup)] : [])
+      ),
+      (docs) => {
+        setActiveSessions(docs.map(toSession));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading active sessions:', error);
+      }
     );
 
-    const unsubscribe = onSnapshot(activeQuery, (snapshot) => {
-      const sessions = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Session[];
-      
-      setActiveSessions(sessions);
-      setLoading(false);
-    });
+    return () => unsubscribe();
+  }, [territoryScope]);
+
+  useEffect(() => {
+    if (!isRouteAllowed) navigate(DEFAULT_PATH, { replace: true });
+  }, [isRouteAllowed]);
+
+  // Only the newest page is live; older pages are fetched on demand with a cursor
+  useEffect(() => {
+    if (viewMode !== 'history' || territoryScope?.length === 0) return;
+
+    // Each group returns its own newest page; together they hold the merged one
+    let pageIds: string[] = [];
+
+    const unsubscribe = onScopedSnapshot(
+      getScopeGroups(filters, territoryScope),
+      (scopeGroup) => buildSessionQuery(filters, scopeGroup, limit(SESSION_PAGE_SIZE)),
+      (docs) => {
+        const sortedDocs = docs.sort(compareSessionDocs);
+        const pageDocs = sortedDocs.slice(0, SESSION_PAGE_SIZE);
+        setFirstPageState({
+          key: filtersKey,
+          sessions: pageDocs.map(toSession),
+          lastDoc: pageDocs[pageDocs.length - 1] || null,
+          hasMore: sortedDocs.length >= SESSION_PAGE_SIZE,
+        });
+
+        const previousIds = pageIds;
+        pageIds = pageDocs.map(pageDoc => pageDoc.id);
+        const currentIds = new Set(pageIds);
+
+        // Sessions pushed off the first page by newer ones would otherwise fall
+        // into the gap between the live page and pages that were already loaded.
+        // The current document decides whether a session that left the page
+        // was pushed out or stopped matching the filters.
+        const leftIds = previousIds.filter(id => !currentIds.has(id));
+        if (leftIds.length > 0) {
+          Promise.all(leftIds.map(id => getDoc(doc(db, 'sessions', id))))
+            .then(sessionDocs => {
+              const pushedOut = sessionDocs
+                .filter(sessionDoc => sessionDoc.exists())
+                .map(sessionDoc => ({ id: sessionDoc.id, ...sessionDoc.data() }) as Session)
+                .filter(session => matchesSessionFilters(session, filters, territoryScope));
+              if (pushedOut.length === 0) return;
+
+              setOlderPagesState(prev => prev?.key === filtersKey
+                ? { ...prev, sessions: [...pushedOut, ...prev.sessions].sort(compareStartTimeDesc) }
+                : prev);
+            })
+            .catch(error => console.error('Error loading removed sessions:', error));
+        }
+
+        // Counting only when the set of sessions changes, not on every GPS update
+        if (leftIds.length > 0 || pageIds.length !== previousIds.length || previousIds.length === 0) {
+          countSessions(filters, territoryScope)
+            .then(count => setFilteredCountState({ key: filtersKey, count }))
+            .catch(error => console.error('Error counting sessions:', error));
+        }
+      },
+      (error) => {
+        console.error('Error loading session history:', error);
+      }
+    );
 
     return () => unsubscribe();
-  }, []);
+  }, [viewMode, filters, filtersKey, territoryScope]);
+
+  const activeSessionIds = activeSessions.map(s => s.id).join(',');
 
   useEffect(() => {
-    const allQuery = query(collection(db, 'sessions'));
-    
-    const unsubscribe = onSnapshot(allQuery, (snapshot) => {
-      const sessions = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Session[];
-      
-      setAllSessions(sessions.sort((a, b) => 
-        b.startTime?.seconds - a.startTime?.seconds
-      ));
+    if (territoryScope?.length === 0) return;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    Promise.all([
+      countSessions(EMPTY_FILTERS, territoryScope),
+      countSessionsEndedBetween(today, tomorrow, territoryScope),
+    ])
+      .then(([total, completedToday]) => {
+        setTotalCount(total);
+        setCompletedTodayCount(completedToday);
+      })
+      .catch(error => console.error('Error counting sessions:', error));
+  }, [territoryScope, activeSessionIds]);
+
+  useEffect(() => {
+    if (!selectedSessionId) return;
+
+    const unsubscribe = onSnapshot(doc(db, 'sessions', selectedSessionId), (snapshot) => {
+      setSelectedSessionDoc(snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as Session : null);
+    }, (error) => {
+      console.error('Error loading selected session:', error);
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [selectedSessionId]);
+
+  // Pages loaded for other filters are ignored until the new ones arrive
+  const firstPage = firstPageState?.key === filtersKey ? firstPageState : null;
+  const olderPages = olderPagesState?.key === filtersKey ? olderPagesState : null;
+  const filteredCount = filteredCountState?.key === filtersKey ? filteredCountState.count : null;
+
+  const historySessions = useMemo(() => {
+    const seen = new Set<string>();
+    return [...(firstPage?.sessions || []), ...(olderPages?.sessions || [])].filter(session => {
+      if (seen.has(session.id)) return false;
+      seen.add(session.id);
+      return true;
+    });
+  }, [firstPage, olderPages]);
+
+  const hasMoreSessions = olderPages ? olderPages.hasMore : !!firstPage?.hasMore;
 
   useEffect(() => {
-    const cleanupInterval = setInterval(async () => {
-      const now = new Date();
-      const thresholdTime = new Date(now.getTime() - (30 * 60 * 1000)); 
-      const maxSessionTime = new Date(now.getTime() - (12 * 60 * 60 * 1000)); 
-      
-      for (const session of activeSessions) {
-        let shouldClose = false;
-        let reason = '';
-        
-        if (session.lastLocationUpdate) {
-          const lastUpdate = session.lastLocationUpdate.toDate();
-          if (lastUpdate < thresholdTime) {
-            shouldClose = true;
-            reason = 'No GPS updates for 30+ minutes';
-          }
-        }
-        
-        if (session.startTime) {
-          const startTime = session.startTime.toDate();
-          if (startTime < maxSessionTime) {
-            shouldClose = true;
-            reason = 'Session running for 12+ hours';
-          }
-        }
-        
-        if (session.pointsCount === 0 && session.startTime) {
-          const startTime = session.startTime.toDate();
-          const minutesSinceStart = (now.getTime() - startTime.getTime()) / (1000 * 60);
-          
-          if (minutesSinceStart > 10) {
-            shouldClose = true;
-            reason = 'No GPS points after 10 minutes';
-          }
-        }
-        
-        if (shouldClose) {
-          try {
-            console.log(`Auto-closing session ${session.id}: ${reason}`);
-            
-            await updateDoc(doc(db, 'sessions', session.id), {
-              status: 'auto_completed',
-              endTime: now,
-              autoClosedReason: reason
-            });
-            
-            if (session.workerId) {
-              await updateDoc(doc(db, 'workers', session.workerId), {
-                activeSessionId: null
-              });
-            }
-            
-            console.log(`Session ${session.id} auto-closed successfully`);
-          } catch (error) {
-            console.error('Error auto-closing session:', error);
-          }
-        }
-      }
-    }, 60000); 
-    
+    if (!canAutoClose || !lifecycleRules.enabled) return;
+
+    const cleanupInterval = setInterval(() => {
+      runAutoClose(activeSessions, lifecycleRules);
+    }, AUTO_CLOSE_CHECK_INTERVAL_MS);
+
     return () => clearInterval(cleanupInterval);
-  }, [activeSessions]);
+  }, [activeSessions, canAutoClose, lifecycleRules]);
 
-  const getFilteredSessions = (sessions: Session[]): Session[] => {
-    return sessions.filter(session => {
-      if (filters.workerId && session.workerId !== filters.workerId) {
-        return false;
-      }
+  // Streams run while the map or the alerts need them
+  const livePoints = useLivePoints(viewMode === 'live' || canViewAlerts ? activeSessions : NO_SESSIONS);
+  const liveAlerts = useLiveAlerts(canViewAlerts ? activeSessions : NO_SESSIONS, livePoints, alertConfig);
+  useSessionNotifications(user?.uid || null, territoryScope, liveAlerts.alerts);
 
-      if (filters.territoryId && session.territoryId !== filters.territoryId) {
-        return false;
-      }
+  // Completed sessions get their geofence summary computed once per territory, one at a time,
+  // so the history list can flag violations without opening every session
+  const geofenceFailedIdsRef = useRef<Set<string>>(new Set());
 
-      if (filters.status !== 'all' && session.status !== filters.status) {
-        return false;
-      }
+  const pendingGeofence = viewMode === 'history' && canUpdateSessions
+    ? historySessions.find(s => needsGeofenceSummary(s) && !geofenceFailedIdsRef.current.has(s.id))
+    : undefined;
+  // Keyed on the session rather than the list, so other history updates don't restart the load
+  const pendingGeofenceId = pendingGeofence?.id || null;
+  const pendingGeofenceTerritoryId = pendingGeofence?.territoryId || null;
+  const pendingGeofencePointsCount = pendingGeofence?.pointsCount || 0;
 
-      if (filters.dateFrom || filters.dateTo) {
-        const sessionDate = session.startTime?.toDate?.();
-        if (!sessionDate) return false;
+  useEffect(() => {
+    if (!pendingGeofenceId || !pendingGeofenceTerritoryId) return;
 
-        if (filters.dateFrom) {
-          const fromDate = new Date(filters.dateFrom);
-          fromDate.setHours(0, 0, 0, 0);
-          if (sessionDate < fromDate) return false;
-        }
+    const sessionId = pendingGeofenceId;
+    const territoryId = pendingGeofenceTerritoryId;
+    let cancelled = false;
 
-        if (filters.dateTo) {
-          const toDate = new Date(filters.dateTo);
-          toDate.setHours(23, 59, 59, 999);
-          if (sessionDate > toDate) return false;
-        }
+    const checkGeofence = async () => {
+      try {
+        const territoryDoc = await getDoc(doc(db, 'territories', territoryId));
+        const boundary = parseTerritoryBoundary(territoryDoc.data()?.boundaryGeoJSON);
+        const points = await loadCompletedSessionLocations(sessionId, pendingGeofencePointsCount);
+
+        if (cancelled) return;
+
+        await updateDoc(doc(db, 'sessions', sessionId), { ...computeGeofenceSummary(points, boundary, territoryId) });
+      } catch (error) {
+        console.error(`Error checking geofence for session ${sessionId}:`, error);
+        geofenceFailedIdsRef.current.add(sessionId);
       }
+    };
 
-      return true;
-    });
+    checkGeofence();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingGeofenceId, pendingGeofenceTerritoryId, pendingGeofencePointsCount]);
+
+  const handleLifecycleRulesChange = (rules: LifecycleRules) => {
+    setLifecycleRules(rules);
+    saveLifecycleRules(rules);
+  };
+
+  const handleAlertConfigChange = (config: AlertConfig) => {
+    setAlertConfig(config);
+    saveAlertConfig(config);
+  };
+
+  const openView = (view: AppView) => {
+    viewSearchRef.current[viewMode] = routeSearch;
+    navigate(buildPath(view, null, new URLSearchParams(viewSearchRef.current[view] || '')));
+  };
+
+  const handleFilterChange = (newFilters: FilterState) => {
+    navigate(buildPath('history', selectedSessionId, filtersToParams(newFilters)));
   };
 
-  if (loading) {
+  const handleWorkerFilterChange = (workerIds: string[]) => {
+    navigate(buildPath('live', null, workerIdsToParams(workerIds)));
+  };
+
+  const handleSelectSession = (session: Session, index: number) => {
+    navigate(buildPath('history', session.id, filtersToParams(filters)));
+    prefetchSessionLocations(historySessions.slice(index + 1, index + 1 + PREFETCH_SESSION_COUNT));
+  };
+
+  const handleCloseSession = () => {
+    navigateBack(buildPath('history', null, filtersToParams(filters)));
+  };
+
+  const handleTerritoryEditingChange = (territoryId: string | null) => {
+    if (territoryId) {
+      navigate(buildPath('territories', territoryId));
+    } else {
+      navigateBack(buildPath('territories'));
+    }
+  };
+
+  const handleLoadMore = async () => {
+    const cursor = olderPages?.lastDoc || firstPage?.lastDoc;
+    if (!cursor || loadingMore) return;
+
+    const key = filtersKey;
+    setLoadingMore(true);
+    try {
+      const page = await fetchSessionPage(filters, territoryScope, cursor);
+      setOlderPagesState(prev => ({
+        key,
+        sessions: [...(prev?.key === key ? prev.sessions : []), ...page.sessions],
+        lastDoc: page.lastDoc || cursor,
+        hasMore: page.hasMore,
+      }));
+    } catch (error) {
+      console.error('Error loading more sessions:', error);
+      alert('Greška pri učitavanju sesija');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadAllFilteredSessions = () => fetchAllSessions(filters, territoryScope);
+
+  if (loading && !hasNoTerritories) {
     return (
       <div className={styles.loading}>
         <div className={styles.spinner}></div>
@@ -168,7 +416,11 @@ function Dashboard() {
     );
   }
 
-  const filteredSessions = getFilteredSessions(allSessions);
+  // The selected session has its own listener, so it stays current even off the loaded pages
+  const loadedSelectedSession = selectedSessionDoc?.id === selectedSessionId ? selectedSessionDoc : null;
+  // A pasted /history/:sessionId link can point outside a viewer's territories
+  const isSelectedOutOfScope = !!loadedSelectedSession && !canAccessTerritory(loadedSelectedSession.territoryId);
+  const selectedSession = isSelectedOutOfScope ? null : loadedSelectedSession;
 
   const filteredActiveSessions = selectedWorkerIds.length === 0 
   ? activeSessions 
@@ -191,7 +443,7 @@ function Dashboard() {
           <div className={styles.statContent}>
             <div>
               <p className={styles.statLabel}>Ukupno Sesija</p>
-              <p className={styles.statValue}>{allSessions.length}</p>
+              <p className={styles.statValue}>{totalCount ?? '-'}</p>
             </div>
             <div className={styles.statIcon}>📊</div>
           </div>
@@ -202,19 +454,7 @@ function Dashboard() {
             <div>
               <p className={styles.statLabel}>Završene Danas</p>
               <p className={styles.statValue}>
-              {allSessions.filter(s => {
-                if (s.status !== 'completed') return false;
-                
-                const sessionEndDate = s.endTime?.toDate?.();
-                if (!sessionEndDate) return false;
-                
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
-                const tomorrow = new Date(today);
-                tomorrow.setDate(tomorrow.getDate() + 1);
-                
-                return sessionEndDate >= today && sessionEndDate < tomorrow;
-              }).length}
+              {completedTodayCount ?? '-'}
             </p>
             </div>
             <div className={styles.statIcon}>✅</div>
@@ -225,59 +465,133 @@ function Dashboard() {
       <div className={styles.toggleCard}>
         <div className={styles.toggleButtons}>
           <button
-            onClick={() => setViewMode('live')}
+            onClick={() => openView('live')}
             className={`${styles.toggleButton} ${viewMode === 'live' ? styles.active : ''}`}>
             🔴 Live Tracking
+            {liveAlerts.alerts.length > 0 && (
+              <span className={styles.alertBadge}>{liveAlerts.alerts.length}</span>
+            )}
           </button>
           <button
-            onClick={() => setViewMode('history')}
+            onClick={() => openView('history')}
             className={`${styles.toggleButton} ${viewMode === 'history' ? styles.active : ''}`}>
             📜 Povijest
           </button>
+          {can('manageWorkers') && (
+            <button
+              onClick={() => openView('workers')}
+              className={`${styles.toggleButton} ${viewMode === 'workers' ? styles.active : ''}`}>
+              👷 Radnici
+            </button>
+          )}
+          {can('manageTerritories') && (
+            <button
+              onClick={() => openView('territories')}
+              className={`${styles.toggleButton} ${viewMode === 'territories' ? styles.active : ''}`}>
+              🗺️ Tereni
+            </button>
+          )}
+          {can('viewAuditLog') && (
+            <button
+              onClick={() => openView('audit')}
+              className={`${styles.toggleButton} ${viewMode === 'audit' ? styles.active : ''}`}>
+              🧾 Revizija
+            </button>
+          )}
+          {can('viewAnalytics') && (
+            <button
+              onClick={() => openView('analytics')}
+              className={`${styles.toggleButton} ${viewMode === 'analytics' ? styles.active : ''}`}>
+              📈 Analitika
+            </button>
+          )}
+          {can('viewReconciliation') && (
+            <button
+              onClick={() => openView('reconciliation')}
+              className={`${styles.toggleButton} ${viewMode === 'reconciliation' ? styles.active : ''}`}>
+              🧮 Obračun letaka
+            </button>
+          )}
         </div>
       </div>
 
       {viewMode === 'history' && (
-        <Filters onFilterChange={setFilters} />
+        <Filters filters={filters} onFilterChange={handleFilterChange} />
       )}
 
       {viewMode === 'live' && (
         <WorkerFilter 
           sessions={activeSessions}
           selectedWorkerIds={selectedWorkerIds}
-          onFilterChange={setSelectedWorkerIds}
+          onFilterChange={handleWorkerFilterChange}
+        />
+      )}
+
+      {viewMode === 'live' && canViewAlerts && (
+        <AlertPanel
+          liveAlerts={liveAlerts}
+          sessions={activeSessions}
+          config={alertConfig}
+          onConfigChange={handleAlertConfigChange}
+          onShowWorker={(workerId) => handleWorkerFilterChange([workerId])}
+        />
+      )}
+
+      {viewMode === 'live' && canAutoClose && (
+        <LifecyclePanel
+          sessions={activeSessions}
+          rules={lifecycleRules}
+          onRulesChange={handleLifecycleRulesChange}
         />
       )}
 
       <div className={styles.content}>
           {viewMode === 'live' ? (
             <div className={styles.liveView}>
-              <LiveMap sessions={filteredActiveSessions} />
+              <LiveMap sessions={filteredActiveSessions} pointsBySession={livePoints} />
             </div>
+          ) : viewMode === 'workers' && can('manageWorkers') ? (
+            <WorkerManagement />
+          ) : viewMode === 'territories' && can('manageTerritories') ? (
+            <TerritoryManagement
+              editingId={editingTerritoryId}
+              onEditingChange={handleTerritoryEditingChange}
+            />
+          ) : viewMode === 'audit' && can('viewAuditLog') ? (
+            <AuditLog />
+          ) : viewMode === 'analytics' && can('viewAnalytics') ? (
+            <Analytics territoryScope={territoryScope} canUpdateSessions={canUpdateSessions} />
+          ) : viewMode === 'reconciliation' && can('viewReconciliation') ? (
+            <Reconciliation territoryScope={territoryScope} />
           ) : (
           <div className={styles.historyView}>
             <div className={styles.historyGrid}>
               <div className={styles.sessionListColumn}>
-                <h2>Povijest sesija {filteredSessions.length !== allSessions.length && `(${filteredSessions.length}/${allSessions.length})`}</h2>
+                <div className={styles.historyHeader}>
+                  <h2>Povijest sesija {filteredCount !== null && `(${filteredCount})`}</h2>
+                  {can('exportData') && (
+                    <div className={styles.historyActions}>
+                      <PeriodReport sessions={historySessions} territoryScope={territoryScope} />
+                      <SessionExport sessionCount={filteredCount ?? historySessions.length} loadSessions={loadAllFilteredSessions} />
+                    </div>
+                  )}
+                </div>
                 <div className={styles.sessionsList}>
-                  {filteredSessions.map(session => (
+                  {historySessions.map((session, index) => (
                     <div 
                       key={session.id} 
                       className={`${styles.sessionCard} ${
-                        selectedSession?.id === session.id ? styles.sessionCardActive : ''
+                        selectedSessionId === session.id ? styles.sessionCardActive : ''
                       }`}
-                      onClick={() => {setSelectedSession(session); 
-                        if (window.innerWidth < 1024) {
-                          setIsBottomSheetOpen(true);
-                        }}}>
+                      onClick={() => handleSelectSession(session, index)}>
                       <div className={styles.sessionHeader}>
                         <span className={styles.sessionWorker}>
                           {session.workerName}
                         </span>
-                        <span className={`${styles.sessionStatus} ${
-                          session.status === 'active' ? styles.statusActive : styles.statusCompleted
-                        }`}>
-                          {session.status === 'active' ? '🟢 Aktivan' : '✅ Završen'}
+                        <span
+                          className={`${styles.sessionStatus} ${STATUS_CLASSES[session.status]}`}
+                          title={session.autoClosedReason}>
+                          {SESSION_STATUS_LABELS[session.status]}
                         </span>
                       </div>
                       <div className={styles.sessionInfo}>
@@ -292,12 +606,30 @@ function Dashboard() {
                             📄 {session.flyerCount} {session.flyerCount === 1 ? 'letak' : 'letaka'}
                           </span>
                         )}
+                        {!!session.geofenceViolationCount && (
+                          <span className={styles.violationBadge}>
+                            🚧 {session.geofenceViolationCount}× izvan terena
+                          </span>
+                        )}
                       </div>
                       <div className={styles.sessionTime}>
                         {session.startTime?.toDate?.()?.toLocaleString('hr-HR') || 'N/A'}
                       </div>
                     </div>
                   ))}
+
+                  {hasMoreSessions ? (
+                    <button
+                      className={styles.loadMoreButton}
+                      disabled={loadingMore}
+                      onClick={handleLoadMore}>
+                      {loadingMore
+                        ? 'Učitavam...'
+                        : `Učitaj još (${historySessions.length}${filteredCount !== null ? ` od ${filteredCount}` : ''})`}
+                    </button>
+                  ) : historySessions.length === 0 && (
+                    <p className={styles.listEmpty}>Nema sesija za odabrane filtere</p>
+                  )}
                 </div>
               </div>
               
@@ -306,9 +638,9 @@ function Dashboard() {
                   <SessionMap session={selectedSession} />
                 ) : (
                   <div className={styles.mapPlaceholder}>
-                    <p className={styles.placeholderIcon}>👈</p>
+                    <p className={styles.placeholderIcon}>{isSelectedOutOfScope ? '🔒' : '👈'}</p>
                     <p className={styles.placeholderText}>
-                      Odaberi sesiju za prikaz na mapi
+                      {isSelectedOutOfScope ? 'Nemate pristup ovoj sesiji' : 'Odaberi sesiju za prikaz na mapi'}
                     </p>
                   </div>
                 )}
@@ -319,11 +651,8 @@ function Dashboard() {
       </div>
       
     <BottomSheet 
-      isOpen={isBottomSheetOpen}
-      onClose={() => {
-        setIsBottomSheetOpen(false);
-        setSelectedSession(null);
-      }}
+      isOpen={!!selectedSessionId && !isSelectedOutOfScope && isCompactLayout}
+      onClose={handleCloseSession}
     >
       {selectedSession && <SessionMap session={selectedSession} />}
     </BottomSheet>
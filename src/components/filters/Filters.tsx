@@ -1,66 +1,57 @@
 import { useState, useEffect } from 'react';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '../../config/firebase';
+import { useAuth } from '../../contexts/AuthContext';
 import type { Worker, Territory, FilterState } from '../../types';
+import { EMPTY_FILTERS } from '../../utils/sessionQuery';
 import styles from './Filters.module.css';
 
 interface FiltersProps {
+  filters: FilterState;
   onFilterChange: (filters: FilterState) => void;
 }
 
-function Filters({ onFilterChange }: FiltersProps) {
+function Filters({ filters, onFilterChange }: FiltersProps) {
+  const { can, canAccessTerritory } = useAuth();
+  const canViewWorkers = can('viewWorkers');
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [territories, setTerritories] = useState<Territory[]>([]);
-  const [filters, setFilters] = useState<FilterState>({
-    workerId: '',
-    territoryId: '',
-    status: 'all',
-    dateFrom: '',
-    dateTo: '',
-  });
   const [expanded, setExpanded] = useState(false);
 
   useEffect(() => {
+    const loadFilterOptions = async () => {
+      try {
+        // Worker documents hold PINs, so only roles that may see workers load them
+        const [workersSnapshot, territoriesSnapshot] = await Promise.all([
+          canViewWorkers ? getDocs(collection(db, 'workers')) : Promise.resolve(null),
+          getDocs(collection(db, 'territories'))
+        ]);
+
+        if (workersSnapshot) {
+          setWorkers(workersSnapshot.docs.map(doc => ({ 
+            id: doc.id, 
+            ...doc.data() 
+          })) as Worker[]);
+        }
+
+        setTerritories(territoriesSnapshot.docs.map(doc => ({ 
+          id: doc.id, 
+          ...doc.data() 
+        })) as Territory[]);
+      } catch (error) {
+        console.error('Error loading filter options:', error);
+      }
+    };
+
     loadFilterOptions();
-  }, []);
-
-  const loadFilterOptions = async () => {
-    try {
-      const [workersSnapshot, territoriesSnapshot] = await Promise.all([
-        getDocs(collection(db, 'workers')),
-        getDocs(collection(db, 'territories'))
-      ]);
-
-      setWorkers(workersSnapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...doc.data() 
-      })) as Worker[]);
-
-      setTerritories(territoriesSnapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...doc.data() 
-      })) as Territory[]);
-    } catch (error) {
-      console.error('Error loading filter options:', error);
-    }
-  };
+  }, [canViewWorkers]);
 
   const handleFilterChange = (key: keyof FilterState, value: string) => {
-    const newFilters = { ...filters, [key]: value };
-    setFilters(newFilters);
-    onFilterChange(newFilters);
+    onFilterChange({ ...filters, [key]: value });
   };
 
   const handleReset = () => {
-    const resetFilters: FilterState = {
-      workerId: '',
-      territoryId: '',
-      status: 'all',
-      dateFrom: '',
-      dateTo: '',
-    };
-    setFilters(resetFilters);
-    onFilterChange(resetFilters);
+    onFilterChange(EMPTY_FILTERS);
   };
 
   const hasActiveFilters = 
@@ -94,20 +85,22 @@ function Filters({ onFilterChange }: FiltersProps) {
 
       {expanded && (
         <div className={styles.filtersGrid}>
-          <div className={styles.filterGroup}>
-            <label className={styles.label}>Radnik</label>
-            <select 
-              className={styles.select}
-              value={filters.workerId}
-              onChange={(e) => handleFilterChange('workerId', e.target.value)}>
-              <option value="">Svi radnici</option>
-              {workers.map(worker => (
-                <option key={worker.id} value={worker.id}>
-                  {worker.name}
-                </option>
-              ))}
-            </select>
-          </div>
+          {canViewWorkers && (
+            <div className={styles.filterGroup}>
+              <label className={styles.label}>Radnik</label>
+              <select 
+                className={styles.select}
+                value={filters.workerId}
+                onChange={(e) => handleFilterChange('workerId', e.target.value)}>
+                <option value="">Svi radnici</option>
+                {workers.map(worker => (
+                  <option key={worker.id} value={worker.id}>
+                    {worker.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
 
           <div className={styles.filterGroup}>
             <label className={styles.label}>Teren</label>
@@ -116,7 +109,7 @@ function Filters({ onFilterChange }: FiltersProps) {
               value={filters.territoryId}
               onChange={(e) => handleFilterChange('territoryId', e.target.value)}>
               <option value="">Svi tereni</option>
-              {territories.map(territory => (
+              {territories.filter(t => canAccessTerritory(t.id)).map(territory => (
                 <option key={territory.id} value={territory.id}>
                   {territory.name}
                 </option>
@@ -133,6 +126,7 @@ function Filters({ onFilterChange }: FiltersProps) {
               <option value="all">Sve sesije</option>
               <option value="active">Aktivne</option>
               <option value="completed">Završene</option>
+              <option value="auto_completed">Automatski zatvorene</option>
             </select>
           </div>
 
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { Session } from '../../types';
+import { ALERT_TYPE_LABELS, SNOOZE_OPTIONS_MINUTES, type AlertConfig, type AlertType } from '../../utils/liveAlerts';
+import type { LiveAlertsState } from '../../utils/useLiveAlerts';
+import AlertRulesEditor from './AlertRulesEditor';
+import styles from './AlertPanel.module.css';
+
+interface AlertPanelProps {
+  liveAlerts: LiveAlertsState;
+  sessions: Session[];
+  config: AlertConfig;
+  onConfigChange: (config: AlertConfig) => void;
+  onShowWorker: (workerId: string) => void;
+}
+
+const TYPE_CLASSES: Record<AlertType, string> = {
+  stationary: styles.typeStationary,
+  speeding: styles.typeSpeeding,
+  out_of_territory: styles.typeOutside,
+  gps_silent: styles.typeSilent,
+};
+
+function AlertPanel({ liveAlerts, sessions, config, onConfigChange, onShowWorker }: AlertPanelProps) {
+  const [expanded, setExpanded] = useState(true);
+  const [showRules, setShowRules] = useState(false);
+  const { alerts, hiddenCount, acknowledge, snooze } = liveAlerts;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <button
+          className={styles.toggleButton}
+          onClick={() => setExpanded(!expanded)}>
+          <span className={styles.toggleIcon}>
+            {expanded ? '🔽' : '▶️'}
+          </span>
+          <span>Upozorenja</span>
+          {alerts.length > 0 && <span className={styles.countBadge}>{alerts.length}</span>}
+          {hiddenCount > 0 && <span className={styles.mutedBadge}>{hiddenCount} utišano</span>}
+        </button>
+        {expanded && (
+          <button className={styles.secondaryButton} onClick={() => setShowRules(!showRules)}>
+            ⚙️ Pravila
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className={styles.body}>
+          {showRules && (
+            <AlertRulesEditor config={config} sessions={sessions} onChange={onConfigChange} />
+          )}
+
+          {alerts.length === 0 ? (
+            <p className={styles.emptyText}>Nema aktivnih upozorenja.</p>
+          ) : (
+            <ul className={styles.alertList}>
+              {alerts.map(alert => (
+                <li key={alert.id} className={styles.alert}>
+                  <span className={`${styles.typeBadge} ${TYPE_CLASSES[alert.type]}`}>
+                    {ALERT_TYPE_LABELS[alert.type]}
+                  </span>
+                  <span className={styles.workerName}>{alert.session.workerName}</span>
+                  <span className={styles.meta}>
+                    {alert.message} · od {new Date(alert.since).toLocaleTimeString('hr-HR', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span className={styles.alertActions}>
+                    <button className={styles.linkButton} onClick={() => onShowWorker(alert.session.workerId)}>
+                      📍 Prikaži
+                    </button>
+                    {SNOOZE_OPTIONS_MINUTES.map(minutes => (
+                      <button key={minutes} className={styles.linkButton} onClick={() => snooze(alert, minutes)}>
+                        💤 {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                      </button>
+                    ))}
+                    <button className={styles.secondaryButton} onClick={() => acknowledge(alert)}>
+                      ✓ Potvrdi
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AlertPanel;
@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { Session, Territory, Worker } from '../../types';
+import { DEFAULT_ALERT_RULES, type AlertConfig, type AlertRules } from '../../utils/liveAlerts';
+import styles from './AlertPanel.module.css';
+
+interface AlertRulesEditorProps {
+  config: AlertConfig;
+  sessions: Session[];
+  onChange: (config: AlertConfig) => void;
+}
+
+type NumericRule = Exclude<keyof AlertRules, 'checkTerritory'>;
+type OverrideGroup = 'territories' | 'workers';
+
+const RULE_FIELDS: { key: NumericRule; label: string; unit: string }[] = [
+  { key: 'stationaryMinutes', label: 'Miruje dulje od', unit: 'min' },
+  { key: 'stationaryRadiusMeters', label: 'Krug mirovanja', unit: 'm' },
+  { key: 'maxWalkingSpeedKmh', label: 'Najveća brzina hoda', unit: 'km/h' },
+  { key: 'gpsSilentMinutes', label: 'GPS bez signala dulje od', unit: 'min' },
+  { key: 'outsideToleranceMeters', label: 'Tolerancija granice terena', unit: 'm' },
+];
+
+const DEFAULTS_SCOPE = 'defaults';
+
+function parseScope(scope: string): { group: OverrideGroup; id: string } | null {
+  const [group, id] = scope.split(':');
+  if (scope === DEFAULTS_SCOPE || !id) return null;
+  return { group: group === 'worker' ? 'workers' : 'territories', id };
+}
+
+function AlertRulesEditor({ config, sessions, onChange }: AlertRulesEditorProps) {
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [scope, setScope] = useState(DEFAULTS_SCOPE);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [territoriesSnapshot, workersSnapshot] = await Promise.all([
+          getDocs(collection(db, 'territories')),
+          getDocs(collection(db, 'workers')),
+        ]);
+        setTerritories(territoriesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Territory)));
+        setWorkers(workersSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Worker)));
+      } catch (error) {
+        console.error('Error loading alert rule options:', error);
+      }
+    };
+
+    loadOptions();
+  }, []);
+
+  const target = parseScope(scope);
+  const override = target ? config[target.group][target.id] || {} : null;
+  const activeWorkerIds = new Set(sessions.map(s => s.workerId));
+
+  // What the selected territory or worker would get without its own override;
+  // a worker inherits from the territory of their active session
+  const workerTerritoryId = target?.group === 'workers'
+    ? sessions.find(s => s.workerId === target.id)?.territoryId
+    : null;
+  const inherited: AlertRules = {
+    ...config.defaults,
+    ...(workerTerritoryId ? config.territories[workerTerritoryId] : undefined),
+  };
+
+  const updateOverride = (changes: Partial<AlertRules>, removed: (keyof AlertRules)[] = []) => {
+    if (!target) {
+      onChange({ ...config, defaults: { ...config.defaults, ...changes } });
+      return;
+    }
+
+    const next: Partial<AlertRules> = { ...override, ...changes };
+    removed.forEach(key => delete next[key]);
+
+    const group = { ...config[target.group] };
+    if (Object.keys(next).length > 0) {
+      group[target.id] = next;
+    } else {
+      delete group[target.id];
+    }
+    onChange({ ...config, [target.group]: group });
+  };
+
+  const handleNumberChange = (key: NumericRule, value: string) => {
+    if (value.trim() === '') {
+      if (target) updateOverride({}, [key]);
+      return;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    updateOverride({ [key]: parsed });
+  };
+
+  const handleTerritoryCheckChange = (value: string) => {
+    if (value === '') {
+      updateOverride({}, ['checkTerritory']);
+    } else {
+      updateOverride({ checkTerritory: value === 'yes' });
+    }
+  };
+
+  const removeOverride = () => {
+    if (!target) return;
+    const group = { ...config[target.group] };
+    delete group[target.id];
+    onChange({ ...config, [target.group]: group });
+  };
+
+  const sortedTerritories = [...territories].sort((a, b) => a.name.localeCompare(b.name, 'hr'));
+  const sortedWorkers = [...workers].sort((a, b) =>
+    Number(activeWorkerIds.has(b.id)) - Number(activeWorkerIds.has(a.id)) ||
+    a.name.localeCompare(b.name, 'hr')
+  );
+
+  const checkTerritoryValue = target
+    ? override?.checkTerritory === undefined ? '' : override.checkTerritory ? 'yes' : 'no'
+    : config.defaults.checkTerritory ? 'yes' : 'no';
+
+  return (
+    <div className={styles.rules}>
+      <div className={styles.rulesHeader}>
+        <select className={styles.input} value={scope} onChange={(e) => setScope(e.target.value)}>
+          <option value={DEFAULTS_SCOPE}>Zadana pravila</option>
+          <optgroup label="Tereni">
+            {sortedTerritories.map(territory => (
+              <option key={territory.id} value={`territory:${territory.id}`}>
+                {config.territories[territory.id] ? '● ' : ''}{territory.name}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Radnici">
+            {sortedWorkers.map(worker => (
+              <option key={worker.id} value={`worker:${worker.id}`}>
+                {config.workers[worker.id] ? '● ' : ''}{worker.name}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+        {target ? (
+          <button
+            className={styles.secondaryButton}
+            disabled={!override || Object.keys(override).length === 0}
+            onClick={removeOverride}>
+            Ukloni iznimku
+          </button>
+        ) : (
+          <button className={styles.secondaryButton} onClick={() => onChange({ ...config, defaults: DEFAULT_ALERT_RULES })}>
+            Zadane vrijednosti
+          </button>
+        )}
+      </div>
+
+      <p className={styles.hint}>
+        {target
+          ? 'Prazna polja nasljeđuju zadana pravila. Pravila radnika imaju prednost pred pravilima terena.'
+          : 'Vrijednost 0 isključuje pravilo.'}
+      </p>
+
+      <div className={styles.rulesGrid}>
+        {RULE_FIELDS.map(field => (
+          <label key={field.key} className={styles.ruleField}>
+            <span className={styles.label}>{field.label}</span>
+            <span className={styles.inputRow}>
+              <input
+                type="number"
+                min={0}
+                className={styles.input}
+                value={target ? override?.[field.key] ?? '' : config.defaults[field.key]}
+                placeholder={target ? `${inherited[field.key]}` : undefined}
+                onChange={(e) => handleNumberChange(field.key, e.target.value)}
+              />
+              {field.unit}
+            </span>
+          </label>
+        ))}
+
+        <label className={styles.ruleField}>
+          <span className={styles.label}>Provjera terena</span>
+          <select
+            className={styles.input}
+            value={checkTerritoryValue}
+            onChange={(e) => handleTerritoryCheckChange(e.target.value)}>
+            {target && (
+              <option value="">Naslijeđeno ({inherited.checkTerritory ? 'da' : 'ne'})</option>
+            )}
+            <option value="yes">Da</option>
+            <option value="no">Ne</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export default AlertRulesEditor;
@@ -1,10 +1,13 @@
-import { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, Polygon } from 'react-leaflet';
-import { collection, query, where, orderBy, getDocs, doc, getDoc } from 'firebase/firestore';
+import { useEffect, useState, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polygon } from 'react-leaflet';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../../config/firebase';
 import type { Session, LocationPoint, Territory } from '../../types';
-import { cacheService } from '../../utils/cacheService';
-import { createSpeedSegments } from '../../utils/speedColors';
+import { getPointTimeMs } from '../../utils/statistics';
+import { parseTerritoryBoundary } from '../../utils/geometry';
+import type { PointsBySession } from '../../utils/useLivePoints';
+import RouteLayer from '../route-layer/RouteLayer';
+import CachePanel from '../cache-panel/CachePanel';
 import 'leaflet/dist/leaflet.css';
 import styles from './LiveMap.module.css';
 
@@ -23,6 +26,7 @@ L.Marker.prototype.options.icon = DefaultIcon;
 
 interface LiveMapProps {
   sessions: Session[];
+  pointsBySession: PointsBySession;
 }
 
 interface SessionWithLocations {
@@ -31,28 +35,45 @@ interface SessionWithLocations {
   lastLocation: LocationPoint | null;
 }
 
-const POLLING_INTERVAL = 10000; 
+function formatLastUpdate(lastLocation: LocationPoint | null, now: number): string {
+  if (!lastLocation) return 'Bez podataka';
+  const seconds = Math.max(0, Math.floor((now - getPointTimeMs(lastLocation)) / 1000));
+  if (seconds < 60) return `prije ${seconds} s`;
+  if (seconds < 3600) return `prije ${Math.floor(seconds / 60)} min`;
+  return `prije ${Math.floor(seconds / 3600)} h`;
+}
+
+function getLastUpdateClass(lastLocation: LocationPoint | null, now: number): string {
+  const seconds = lastLocation ? (now - getPointTimeMs(lastLocation)) / 1000 : Infinity;
+  if (seconds < 30) return styles.statusFresh;
+  if (seconds < 120) return styles.statusStale;
+  return styles.statusSilent;
+}
 
-function LiveMap({ sessions }: LiveMapProps) {
-  const [sessionsWithLocations, setSessionsWithLocations] = useState<SessionWithLocations[]>([]);
+function LiveMap({ sessions, pointsBySession }: LiveMapProps) {
   const [territories, setTerritories] = useState<Map<string, Territory>>(new Map());
-  const [loading, setLoading] = useState(true);
-  const pollingIntervalRef = useRef<number | null>(null);
-  const lastTimestampsRef = useRef<Map<string, number>>(new Map());
+  const [now, setNow] = useState(() => Date.now());
+
+  const sessionsWithLocations = useMemo<SessionWithLocations[]>(() => sessions.map(session => {
+    const locations = pointsBySession[session.id] || [];
+    return { session, locations, lastLocation: locations[locations.length - 1] || null };
+  }), [sessions, pointsBySession]);
+
+  // Only a change in the set of territories re-reads them, not every point batch
+  const territoryKey = useMemo(
+    () => Array.from(new Set(sessions.map(s => s.territoryId).filter((id): id is string => !!id))).sort().join(','),
+    [sessions]
+  );
 
   useEffect(() => {
-    if (sessionsWithLocations.length === 0) return;
+    if (!territoryKey) return;
 
-    const loadTerritories = async () => {
-      const territoryIds = new Set(
-        sessionsWithLocations
-          .map(s => s.session.territoryId)
-          .filter(id => id !== null && id !== undefined)
-      );
+    let cancelled = false;
 
+    const loadTerritories = async () => {
       const territoriesMap = new Map<string, Territory>();
 
-      for (const territoryId of territoryIds) {
+      for (const territoryId of territoryKey.split(',')) {
         try {
           const territoryDoc = await getDoc(doc(db, 'territories', territoryId));
           if (territoryDoc.exists()) {
@@ -66,165 +87,30 @@ function LiveMap({ sessions }: LiveMapProps) {
         }
       }
 
-      setTerritories(territoriesMap);
+      if (!cancelled) setTerritories(territoriesMap);
     };
 
     loadTerritories();
-  }, [sessionsWithLocations]);
-
-  useEffect(() => {
-    if (sessions.length === 0) {
-      setSessionsWithLocations([]);
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    console.log('🔄 LiveMap: Loading sessions with optimized caching...');
-
-    const initializeAndPoll = async () => {
-      await loadAllSessions();
-      
-      pollingIntervalRef.current = setInterval(() => {
-        loadNewPointsOnly();
-      }, POLLING_INTERVAL);
-    };
-
-    initializeAndPoll();
 
     return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-      }
+      cancelled = true;
     };
-  }, [sessions]);
-
-  const loadAllSessions = async () => {
-    const results: SessionWithLocations[] = [];
+  }, [territoryKey]);
 
-    for (const session of sessions) {
-      try {
-        const cached = cacheService.loadSessionPoints(session.id);
-        
-        if (cached) {
-          console.log(`💾 Using ${cached.points.length} cached points for ${session.workerName}`);
-          
-          results.push({
-            session,
-            locations: cached.points,
-            lastLocation: cached.points.length > 0 ? cached.points[cached.points.length - 1] : null,
-          });
-
-          lastTimestampsRef.current.set(session.id, cached.lastTimestamp);
-
-          loadNewPointsForSession(session.id, cached.lastTimestamp);
-        } else {
-          console.log(`📥 Loading all points from Firestore for ${session.workerName}`);
-          
-          const locationsQuery = query(
-            collection(db, 'locations', session.id, 'points'),
-            orderBy('timestampMs', 'asc')
-          );
-          
-          const snapshot = await getDocs(locationsQuery);
-          let locations = snapshot.docs.map(doc => doc.data()) as LocationPoint[];
-          
-          locations.sort((a, b) => {
-            const timeA = a.timestampMs || 
-              (a.timestamp instanceof Date ? a.timestamp.getTime() : (a.timestamp as any)?.toMillis?.()) || 0;
-            const timeB = b.timestampMs || 
-              (b.timestamp instanceof Date ? b.timestamp.getTime() : (b.timestamp as any)?.toMillis?.()) || 0;
-            return timeA - timeB;
-          });
-
-          console.log(`✅ Loaded ${locations.length} points for ${session.workerName}`);
-
-          if (locations.length > 0) {
-            cacheService.saveSessionPoints(session.id, locations);
-            const lastTimestamp = locations[locations.length - 1].timestampMs || Date.now();
-            lastTimestampsRef.current.set(session.id, lastTimestamp);
-          }
-
-          results.push({
-            session,
-            locations,
-            lastLocation: locations.length > 0 ? locations[locations.length - 1] : null,
-          });
-        }
-      } catch (error) {
-        console.error(`❌ Error loading session ${session.id}:`, error);
-      }
-    }
-
-    setSessionsWithLocations(results);
-    setLoading(false);
-  };
-
-  const loadNewPointsOnly = async () => {
-    console.log('🔄 Polling for new points...');
-
-    for (const session of sessions) {
-      const lastTimestamp = lastTimestampsRef.current.get(session.id) || 0;
-      await loadNewPointsForSession(session.id, lastTimestamp);
-    }
-  };
-
-  const loadNewPointsForSession = async (sessionId: string, lastTimestamp: number) => {
-    try {
-      const newPointsQuery = query(
-        collection(db, 'locations', sessionId, 'points'),
-        where('timestampMs', '>', lastTimestamp),
-        orderBy('timestampMs', 'asc')
-      );
-
-      const snapshot = await getDocs(newPointsQuery);
-      
-      if (snapshot.empty) {
-        return;
-      }
-
-      const newPoints = snapshot.docs.map(doc => doc.data()) as LocationPoint[];
-      
-      console.log(`📍 Found ${newPoints.length} new points for session ${sessionId}`);
-
-      cacheService.appendPoints(sessionId, newPoints);
-
-      setSessionsWithLocations(prev => {
-        const updated = prev.map(item => {
-          if (item.session.id !== sessionId) return item;
-
-          const allLocations = [...item.locations, ...newPoints];
-          const newLastTimestamp = newPoints[newPoints.length - 1].timestampMs || Date.now();
-          
-          lastTimestampsRef.current.set(sessionId, newLastTimestamp);
-
-          return {
-            session: item.session,
-            locations: allLocations,
-            lastLocation: allLocations[allLocations.length - 1],
-          };
-        });
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
 
-        return updated;
-      });
-    } catch (error) {
-      console.error(`❌ Error loading new points for ${sessionId}:`, error);
-    }
-  };
+  const territoryCoords = useMemo(
+    () => new Map(Array.from(territories, ([id, territory]) => [id, parseTerritoryBoundary(territory.boundaryGeoJSON)])),
+    [territories]
+  );
 
   const center: [number, number] = sessionsWithLocations.length > 0 && sessionsWithLocations[0].lastLocation
     ? [sessionsWithLocations[0].lastLocation.latitude, sessionsWithLocations[0].lastLocation.longitude]
     : [43.5081, 16.4402];
 
-  if (loading) {
-    return (
-      <div className={styles.emptyState}>
-        <div className={styles.spinner}></div>
-        <p>Učitavam podatke...</p>
-      </div>
-    );
-  }
-
   if (sessions.length === 0) {
     return (
       <div className={styles.emptyState}>
@@ -248,24 +134,13 @@ function LiveMap({ sessions }: LiveMapProps) {
 
         {sessionsWithLocations.map(({ session, locations, lastLocation }) => {
           const territory = session.territoryId ? territories.get(session.territoryId) : null;
-          let territoryCoords: [number, number][] = [];
-          
-          if (territory?.boundaryGeoJSON) {
-            try {
-              const geoJSON = JSON.parse(territory.boundaryGeoJSON);
-              territoryCoords = geoJSON.coordinates[0].map((coord: number[]) => 
-                [coord[1], coord[0]] as [number, number]
-              );
-            } catch (e) {
-              console.error('Error parsing boundary:', e);
-            }
-          }
+          const coords = (session.territoryId && territoryCoords.get(session.territoryId)) || [];
 
           return (
             <div key={session.id}>
-              {territoryCoords.length > 0 && (
+              {coords.length > 0 && (
                 <Polygon
-                  positions={territoryCoords}
+                  positions={coords}
                   pathOptions={{
                     color: '#10B981',
                     fillColor: '#10B981',
@@ -276,19 +151,7 @@ function LiveMap({ sessions }: LiveMapProps) {
               )}
 
               {locations.length > 1 && (
-                <>
-                  {createSpeedSegments(locations).map((segment, index) => (
-                    <Polyline
-                      key={`${session.id}-segment-${index}`}
-                      positions={segment.positions}
-                      pathOptions={{
-                        color: segment.color,
-                        weight: 4,
-                        opacity: 0.8
-                      }}
-                    />
-                  ))}
-                </>
+                <RouteLayer locations={locations} />
               )}
 
               {lastLocation && (
@@ -298,6 +161,7 @@ function LiveMap({ sessions }: LiveMapProps) {
                       <strong>{session.workerName}</strong>
                       <div className={styles.popupInfo}>
                         <span>📍 {locations.length} GPS točaka</span>
+                        <span>🕒 {formatLastUpdate(lastLocation, now)}</span>
                         <span>⚡ {lastLocation.speed.toFixed(1)} m/s</span>
                         {territory && <span>🗺️ {territory.name}</span>}
                       </div>
@@ -309,21 +173,18 @@ function LiveMap({ sessions }: LiveMapProps) {
           );
         })}
       </MapContainer>
-      
-      {/* Debug info - ukloni u produkciji */}
-      <div style={{ 
-        position: 'absolute', 
-        bottom: '10px', 
-        right: '10px', 
-        background: 'rgba(0,0,0,0.7)', 
-        color: 'white', 
-        padding: '8px 12px', 
-        borderRadius: '6px',
-        fontSize: '12px',
-        zIndex: 1000
-      }}>
-        💾 Cache Stats: {cacheService.getCacheStats().totalSessions} sessions, {cacheService.getCacheStats().totalPoints} points
+
+      <div className={styles.workerStatusPanel}>
+        {sessionsWithLocations.map(({ session, lastLocation }) => (
+          <div key={session.id} className={styles.workerStatusRow}>
+            <span className={`${styles.statusDot} ${getLastUpdateClass(lastLocation, now)}`} />
+            <span className={styles.workerStatusName}>{session.workerName}</span>
+            <span>{formatLastUpdate(lastLocation, now)}</span>
+          </div>
+        ))}
       </div>
+      
+      <CachePanel />
     </div>
   );
 }
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  clearNotificationHistory,
+  isBrowserNotificationSupported,
+  loadNotificationPrefs,
+  markNotificationsRead,
+  playChime,
+  requestBrowserNotificationPermission,
+  saveNotificationPrefs,
+  useNotificationHistory,
+  type NotificationEventType,
+  type NotificationPrefs,
+} from '../../utils/notifications';
+import styles from './NotificationCenter.module.css';
+
+interface NotificationCenterProps {
+  uid: string;
+}
+
+function formatEntryTime(createdAt: number): string {
+  const date = new Date(createdAt);
+  const time = date.toLocaleTimeString('hr-HR', { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString('hr-HR')} ${time}`;
+}
+
+function NotificationCenter({ uid }: NotificationCenterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [prefs, setPrefs] = useState<NotificationPrefs>(() => loadNotificationPrefs(uid));
+  const history = useNotificationHistory(uid);
+  const unreadCount = history.filter(entry => !entry.read).length;
+
+  const updatePrefs = (next: NotificationPrefs) => {
+    setPrefs(next);
+    saveNotificationPrefs(uid, next);
+  };
+
+  const handleBrowserToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      updatePrefs({ ...prefs, browser: false });
+      return;
+    }
+
+    const granted = await requestBrowserNotificationPermission();
+    if (!granted) {
+      alert('Preglednik ne dopušta obavijesti. Omogućite ih u postavkama preglednika.');
+      return;
+    }
+    updatePrefs({ ...prefs, browser: true });
+  };
+
+  const handleSoundToggle = (enabled: boolean) => {
+    updatePrefs({ ...prefs, sound: enabled });
+    // Also unlocks audio, which browsers only allow after a user gesture
+    if (enabled) playChime();
+  };
+
+  const handleEventToggle = (type: NotificationEventType, enabled: boolean) => {
+    updatePrefs({ ...prefs, events: { ...prefs.events, [type]: enabled } });
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    if (unreadCount > 0) markNotificationsRead(uid);
+  };
+
+  const handleClear = () => {
+    if (!confirm('Obrisati povijest obavijesti?')) return;
+    clearNotificationHistory(uid);
+  };
+
+  return (
+    <>
+      <button
+        className={styles.bellButton}
+        onClick={() => isOpen ? handleClose() : setIsOpen(true)}
+        title="Obavijesti">
+        🔔
+        {unreadCount > 0 && (
+          <span className={styles.unreadBadge}>{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className={styles.overlay} onClick={handleClose} />
+          <aside className={styles.drawer}>
+            <div className={styles.drawerHeader}>
+              <h2>Obavijesti</h2>
+              <div className={styles.headerActions}>
+                <button className={styles.secondaryButton} onClick={() => setShowSettings(!showSettings)}>
+                  ⚙️ Postavke
+                </button>
+                <button className={styles.closeButton} onClick={handleClose}>✕</button>
+              </div>
+            </div>
+
+            {showSettings && (
+              <div className={styles.settings}>
+                <label className={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={prefs.browser}
+                    disabled={!isBrowserNotificationSupported()}
+                    onChange={(e) => handleBrowserToggle(e.target.checked)}
+                  />
+                  Obavijesti preglednika dok je portal u pozadini
+                </label>
+                <label className={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={prefs.sound}
+                    onChange={(e) => handleSoundToggle(e.target.checked)}
+                  />
+                  Zvučni signal
+                </label>
+
+                <p className={styles.settingsLabel}>Događaji</p>
+                {(Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEventType[]).map(type => (
+                  <label key={type} className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={prefs.events[type]}
+                      onChange={(e) => handleEventToggle(type, e.target.checked)}
+                    />
+                    {NOTIFICATION_EVENT_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className={styles.historyHeader}>
+              <span>Povijest ({history.length})</span>
+              {history.length > 0 && (
+                <span className={styles.historyActions}>
+                  {unreadCount > 0 && (
+                    <button className={styles.linkButton} onClick={() => markNotificationsRead(uid)}>
+                      Označi kao pročitano
+                    </button>
+                  )}
+                  <button className={styles.linkButton} onClick={handleClear}>
+                    Očisti
+                  </button>
+                </span>
+              )}
+            </div>
+
+            {history.length === 0 ? (
+              <p className={styles.emptyText}>Nema obavijesti.</p>
+            ) : (
+              <ul className={styles.entryList}>
+                {history.map(entry => (
+                  <li key={entry.id} className={`${styles.entry} ${entry.read ? '' : styles.unread}`}>
+                    <div className={styles.entryHeader}>
+                      <span className={styles.entryType}>{NOTIFICATION_EVENT_LABELS[entry.type]}</span>
+                      <span className={styles.entryTime}>{formatEntryTime(entry.createdAt)}</span>
+                    </div>
+                    <p className={styles.entryTitle}>{entry.title}</p>
+                    <p className={styles.entryBody}>{entry.body}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+        </>
+      )}
+    </>
+  );
+}
+
+export default NotificationCenter;
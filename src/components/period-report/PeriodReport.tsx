@@ -0,0 +1,221 @@
+import { useState, useEffect, useMemo } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Session, Territory, Worker } from '../../types';
+import { loadSessionLocations } from '../../utils/sessionPoints';
+import { cleanLocations, loadGpsFilterConfig } from '../../utils/gpsFilter';
+import { generatePeriodReportPDF, type ReportSessionData } from '../../utils/periodReport';
+import { logAudit } from '../../utils/auditLog';
+import { countSessions, fetchAllSessions, type SessionQueryFilters } from '../../utils/sessionQuery';
+import styles from './PeriodReport.module.css';
+
+interface PeriodReportProps {
+  sessions: Session[];
+  territoryScope: string[] | null;
+}
+
+function getMonthStart(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+function PeriodReport({ sessions, territoryScope }: PeriodReportProps) {
+  const { can, canAccessTerritory } = useAuth();
+  const canViewWorkers = can('viewWorkers');
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [workerList, setWorkerList] = useState<Worker[]>([]);
+  const [periodCount, setPeriodCount] = useState<{ key: string; count: number } | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [subjectType, setSubjectType] = useState<'worker' | 'territory'>('worker');
+  const [subjectId, setSubjectId] = useState('');
+  const [dateFrom, setDateFrom] = useState(getMonthStart);
+  const [dateTo, setDateTo] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTerritories = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'territories'));
+        setTerritories(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Territory)));
+      } catch (error) {
+        console.error('Error loading territories for report:', error);
+      }
+    };
+
+    loadTerritories();
+  }, []);
+
+  useEffect(() => {
+    if (!canViewWorkers) return;
+
+    const loadWorkers = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'workers'));
+        setWorkerList(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Worker)));
+      } catch (error) {
+        console.error('Error loading workers for report:', error);
+      }
+    };
+
+    loadWorkers();
+  }, [canViewWorkers]);
+
+  // Roles that can't read worker documents pick from workers seen in the loaded history
+  const workers = useMemo(() => {
+    const byId = new Map<string, string>();
+    if (canViewWorkers) {
+      workerList.forEach(w => byId.set(w.id, w.name));
+    } else {
+      sessions.forEach(s => byId.set(s.workerId, s.workerName));
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'hr'));
+  }, [canViewWorkers, workerList, sessions]);
+
+  const subjects = subjectType === 'worker'
+    ? workers
+    : territories.filter(t => canAccessTerritory(t.id)).sort((a, b) => a.name.localeCompare(b.name, 'hr'));
+
+  const periodFilters = useMemo<SessionQueryFilters>(() => ({
+    workerId: subjectType === 'worker' ? subjectId : '',
+    territoryId: subjectType === 'territory' ? subjectId : '',
+    dateFrom,
+    dateTo,
+  }), [subjectType, subjectId, dateFrom, dateTo]);
+
+  const periodKey = JSON.stringify(periodFilters);
+
+  useEffect(() => {
+    if (!subjectId) return;
+
+    countSessions(periodFilters, territoryScope)
+      .then(count => setPeriodCount({ key: JSON.stringify(periodFilters), count }))
+      .catch(error => console.error('Error counting report sessions:', error));
+  }, [subjectId, periodFilters, territoryScope]);
+
+  const periodSessionCount = periodCount?.key === periodKey ? periodCount.count : null;
+
+  const handleGenerate = async () => {
+    const subjectName = subjects.find(s => s.id === subjectId)?.name;
+    if (!subjectName || !periodSessionCount) return;
+
+    try {
+      setProgress('Učitavam sesije...');
+      const periodSessions = await fetchAllSessions(periodFilters, territoryScope);
+      const territoryById = new Map(territories.map(t => [t.id, t]));
+      const filterConfig = loadGpsFilterConfig();
+      const reportSessions: ReportSessionData[] = [];
+
+      // Sequential so a long period doesn't fire hundreds of reads at once
+      for (const session of periodSessions) {
+        setProgress(`Učitavam ${reportSessions.length + 1}/${periodSessions.length}...`);
+        reportSessions.push({
+          session,
+          locations: cleanLocations(await loadSessionLocations(session), filterConfig).locations,
+          territory: session.territoryId ? territoryById.get(session.territoryId) || null : null,
+        });
+      }
+
+      setProgress('Generiram PDF...');
+      generatePeriodReportPDF({
+        subjectLabel: subjectType === 'worker' ? 'Radnik' : 'Teren',
+        subjectName,
+        dateFrom,
+        dateTo,
+        sessions: reportSessions,
+      });
+
+      console.log(`📑 Period report generated for ${subjectName} (${reportSessions.length} sessions)`);
+
+      logAudit({
+        action: 'data_exported',
+        targetType: 'export',
+        targetId: subjectId,
+        description: `Izvještaj za razdoblje: ${subjectName}`,
+        after: { format: 'pdf', subjectType, dateFrom, dateTo, sessionCount: reportSessions.length },
+      });
+    } catch (error) {
+      console.error('Error generating period report:', error);
+      alert('Greška pri generiranju izvještaja');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <button className={styles.toggleButton} onClick={() => setIsOpen(!isOpen)}>
+        📑 Izvještaj
+      </button>
+
+      {isOpen && (
+        <div className={styles.panel}>
+          <h3>Izvještaj za razdoblje</h3>
+
+          <div className={styles.typeToggle}>
+            <button
+              className={subjectType === 'worker' ? styles.active : ''}
+              onClick={() => { setSubjectType('worker'); setSubjectId(''); }}>
+              Po radniku
+            </button>
+            <button
+              className={subjectType === 'territory' ? styles.active : ''}
+              onClick={() => { setSubjectType('territory'); setSubjectId(''); }}>
+              Po terenu
+            </button>
+          </div>
+
+          <label className={styles.field}>
+            <span>{subjectType === 'worker' ? 'Radnik' : 'Teren'}</span>
+            <select
+              className={styles.input}
+              value={subjectId}
+              onChange={(e) => setSubjectId(e.target.value)}>
+              <option value="">Odaberi...</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>{subject.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className={styles.dateRow}>
+            <label className={styles.field}>
+              <span>Od</span>
+              <input
+                type="date"
+                className={styles.input}
+                value={dateFrom}
+                onChange={(e) => setDateFrom(e.target.value)}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Do</span>
+              <input
+                type="date"
+                className={styles.input}
+                value={dateTo}
+                onChange={(e) => setDateTo(e.target.value)}
+              />
+            </label>
+          </div>
+
+          <p className={styles.summary}>
+            {!subjectId
+              ? 'Odaberi radnika ili teren'
+              : periodSessionCount === null ? 'Brojim sesije...' : `${periodSessionCount} sesija u razdoblju`}
+          </p>
+
+          <button
+            className={styles.generateButton}
+            onClick={handleGenerate}
+            disabled={!periodSessionCount || progress !== null}>
+            {progress || '📄 Generiraj PDF'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PeriodReport;
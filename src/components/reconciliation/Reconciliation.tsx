@@ -0,0 +1,257 @@
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { Session, Territory } from '../../types';
+import { fetchAllSessions } from '../../utils/sessionQuery';
+import { SESSION_STATUS_LABELS } from '../../utils/sessionLifecycle';
+import { logAudit } from '../../utils/auditLog';
+import {
+  NO_CAMPAIGN_LABEL,
+  RECONCILIATION_STATUS_LABELS,
+  exportReconciliationToCSV,
+  getCampaigns,
+  reconcileTerritories,
+  sumReconciliation,
+  type ReconciliationStatus,
+} from '../../utils/reconciliation';
+import styles from './Reconciliation.module.css';
+
+interface ReconciliationProps {
+  territoryScope: string[] | null;
+}
+
+const STATUS_CLASSES: Record<ReconciliationStatus, string> = {
+  no_sessions: styles.statusNoSessions,
+  no_plan: styles.statusNoPlan,
+  in_progress: styles.statusInProgress,
+  delivered: styles.statusDelivered,
+  over_delivered: styles.statusOver,
+};
+
+function getMonthStart(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+function Reconciliation({ territoryScope }: ReconciliationProps) {
+  const [territories, setTerritories] = useState<Territory[] | null>(null);
+  const [sessionsState, setSessionsState] = useState<{ key: string; sessions: Session[] } | null>(null);
+  const [dateFrom, setDateFrom] = useState(getMonthStart);
+  const [dateTo, setDateTo] = useState('');
+  const [campaign, setCampaign] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTerritories = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'territories'));
+        setTerritories(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Territory)));
+      } catch (error) {
+        console.error('Error loading territories for reconciliation:', error);
+        setTerritories([]);
+      }
+    };
+
+    loadTerritories();
+  }, []);
+
+  const periodKey = `${dateFrom}_${dateTo}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    const key = `${dateFrom}_${dateTo}`;
+
+    const loadSessions = async () => {
+      try {
+        const sessions = await fetchAllSessions({ dateFrom, dateTo }, territoryScope);
+        if (!cancelled) setSessionsState({ key, sessions });
+      } catch (error) {
+        console.error('Error loading sessions for reconciliation:', error);
+        if (!cancelled) setSessionsState({ key, sessions: [] });
+      }
+    };
+
+    loadSessions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateFrom, dateTo, territoryScope]);
+
+  const sessions = sessionsState?.key === periodKey ? sessionsState.sessions : null;
+
+  const visibleTerritories = useMemo(
+    () => (territories || [])
+      .filter(t => !territoryScope || territoryScope.includes(t.id))
+      .sort((a, b) =>
+        (a.folder || '').localeCompare(b.folder || '', 'hr') || a.name.localeCompare(b.name, 'hr')
+      ),
+    [territories, territoryScope]
+  );
+
+  const campaigns = useMemo(() => getCampaigns(visibleTerritories), [visibleTerritories]);
+
+  const rows = useMemo(() => {
+    const campaignTerritories = campaign === null
+      ? visibleTerritories
+      : visibleTerritories.filter(t => (t.folder || '') === campaign);
+    return reconcileTerritories(campaignTerritories, sessions || []);
+  }, [visibleTerritories, sessions, campaign]);
+
+  const totals = sumReconciliation(rows);
+  const sessionsWithoutTerritory = (sessions || []).filter(s => !s.territoryId);
+
+  const handleExport = () => {
+    exportReconciliationToCSV(rows, dateFrom, dateTo);
+    logAudit({
+      action: 'data_exported',
+      targetType: 'export',
+      targetId: null,
+      description: 'Izvoz obračuna letaka (CSV)',
+      after: { format: 'csv', territoryCount: rows.length, campaign, dateFrom, dateTo },
+    });
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.toolbar}>
+        <h2>Obračun letaka</h2>
+        <button
+          className={styles.secondaryButton}
+          disabled={!sessions || rows.length === 0}
+          onClick={handleExport}>
+          📄 Izvoz CSV
+        </button>
+      </div>
+
+      <div className={styles.filters}>
+        <select
+          className={styles.input}
+          value={campaign ?? '__all'}
+          onChange={(e) => setCampaign(e.target.value === '__all' ? null : e.target.value)}>
+          <option value="__all">Sve kampanje</option>
+          {campaigns.map(name => (
+            <option key={name} value={name}>{name || NO_CAMPAIGN_LABEL}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          className={styles.input}
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+        />
+        <input
+          type="date"
+          className={styles.input}
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+        />
+      </div>
+
+      {!territories || !sessions ? (
+        <div className={styles.loading}>
+          <div className={styles.spinner}></div>
+          <p>Učitavam obračun letaka...</p>
+        </div>
+      ) : (
+        <>
+          <div className={styles.summaryGrid}>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Planirano</span>
+              <span className={styles.summaryValue}>{totals.planned}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Podijeljeno</span>
+              <span className={styles.summaryValue}>{totals.distributed}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Preostalo</span>
+              <span className={styles.summaryValue}>{totals.remaining}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Višak</span>
+              <span className={styles.summaryValue}>{totals.overDelivered}</span>
+            </div>
+            <div className={styles.summaryCard}>
+              <span className={styles.summaryLabel}>Tereni bez sesija</span>
+              <span className={styles.summaryValue}>{totals.withoutSessions}</span>
+            </div>
+          </div>
+
+          {sessionsWithoutTerritory.length > 0 && (
+            <p className={styles.notice}>
+              ⚠️ {sessionsWithoutTerritory.length} sesija bez terena
+              ({sessionsWithoutTerritory.reduce((sum, s) => sum + (s.flyerCount || 0), 0)} letaka) nije uključeno u obračun
+            </p>
+          )}
+
+          {rows.length === 0 ? (
+            <div className={styles.emptyState}>
+              <div className={styles.emptyIcon}>📄</div>
+              <p className={styles.emptyText}>Nema terena za odabranu kampanju</p>
+            </div>
+          ) : (
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Kampanja</th>
+                    <th>Teren</th>
+                    <th>Planirano</th>
+                    <th>Podijeljeno</th>
+                    <th>Preostalo</th>
+                    <th>Višak</th>
+                    <th>Sesije</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const isExpanded = expandedId === row.territory.id;
+
+                    return (
+                      <Fragment key={row.territory.id}>
+                        <tr
+                          className={row.sessions.length > 0 ? styles.expandable : ''}
+                          onClick={() => row.sessions.length > 0 && setExpandedId(isExpanded ? null : row.territory.id)}>
+                          <td>{row.territory.folder || '-'}</td>
+                          <td>
+                            {row.sessions.length > 0 && (isExpanded ? '▾ ' : '▸ ')}
+                            {row.territory.name}
+                          </td>
+                          <td>{row.planned ?? '-'}</td>
+                          <td>{row.distributed}</td>
+                          <td>{row.remaining ?? '-'}</td>
+                          <td>{row.overDelivered || '-'}</td>
+                          <td>{row.sessions.length}</td>
+                          <td>
+                            <span className={`${styles.statusBadge} ${STATUS_CLASSES[row.status]}`}>
+                              {RECONCILIATION_STATUS_LABELS[row.status]}
+                            </span>
+                          </td>
+                        </tr>
+                        {isExpanded && row.sessions.map(session => (
+                          <tr key={session.id} className={styles.sessionRow}>
+                            <td></td>
+                            <td colSpan={2}>{session.workerName}</td>
+                            <td>{session.flyerCount ?? '-'}</td>
+                            <td colSpan={3}>
+                              {session.startTime?.toDate?.()?.toLocaleString('hr-HR') || '-'}
+                            </td>
+                            <td>{SESSION_STATUS_LABELS[session.status]}</td>
+                          </tr>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Reconciliation;
@@ -0,0 +1,53 @@
+import { useMemo, useState } from 'react';
+import { Polyline, useMap, useMapEvents } from 'react-leaflet';
+import type { LocationPoint } from '../../types';
+import {
+  createSpeedSegments,
+  mergeSpeedSegments,
+  simplifySpeedSegments,
+  getSimplifyTolerance,
+} from '../../utils/speedColors';
+
+interface RouteLayerProps {
+  locations: LocationPoint[];
+  weight?: number;
+}
+
+// Speed-coloured route, merged per colour and simplified for the current zoom.
+// Must be rendered inside a MapContainer.
+function RouteLayer({ locations, weight = 4 }: RouteLayerProps) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+
+  const mergedSegments = useMemo(
+    () => mergeSpeedSegments(createSpeedSegments(locations)),
+    [locations]
+  );
+
+  const segments = useMemo(() => {
+    if (locations.length === 0) return [];
+    return simplifySpeedSegments(mergedSegments, getSimplifyTolerance(zoom, locations[0].latitude));
+  }, [mergedSegments, zoom, locations]);
+
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <Polyline
+          key={index}
+          positions={segment.positions}
+          pathOptions={{
+            color: segment.color,
+            weight,
+            opacity: 0.8
+          }}
+        />
+      ))}
+    </>
+  );
+}
+
+export default RouteLayer;
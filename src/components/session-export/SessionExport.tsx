@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { Session, Territory } from '../../types';
+import {
+  exportSessionsToCSV,
+  exportSessionsToXLSX,
+  loadExportHeaders,
+  saveExportHeaders,
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_HEADERS,
+  type ExportHeaders,
+} from '../../utils/sessionExport';
+import { logAudit } from '../../utils/auditLog';
+import styles from './SessionExport.module.css';
+
+interface SessionExportProps {
+  sessionCount: number;
+  loadSessions: () => Promise<Session[]>;
+}
+
+function SessionExport({ sessionCount, loadSessions }: SessionExportProps) {
+  const [territories, setTerritories] = useState<Map<string, Territory>>(new Map());
+  const [headers, setHeaders] = useState<ExportHeaders>(loadExportHeaders);
+  const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    const loadTerritories = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'territories'));
+        setTerritories(new Map(snapshot.docs.map(doc => [
+          doc.id,
+          { id: doc.id, ...doc.data() } as Territory,
+        ])));
+      } catch (error) {
+        console.error('Error loading territories for export:', error);
+      }
+    };
+
+    loadTerritories();
+  }, []);
+
+  const handleHeaderChange = (key: keyof ExportHeaders, value: string) => {
+    const newHeaders = { ...headers, [key]: value };
+    setHeaders(newHeaders);
+    saveExportHeaders(newHeaders);
+  };
+
+  const handleResetHeaders = () => {
+    setHeaders(DEFAULT_EXPORT_HEADERS);
+    saveExportHeaders(DEFAULT_EXPORT_HEADERS);
+  };
+
+  const handleExport = async (format: 'xlsx' | 'csv') => {
+    setExporting(true);
+    try {
+      // The history list only holds loaded pages, the export covers every matching session
+      const sessions = await loadSessions();
+      if (format === 'xlsx') {
+        await exportSessionsToXLSX(sessions, territories, headers);
+      } else {
+        exportSessionsToCSV(sessions, territories, headers);
+      }
+
+      logAudit({
+        action: 'data_exported',
+        targetType: 'export',
+        targetId: null,
+        description: `Izvoz povijesti sesija (${format.toUpperCase()})`,
+        after: { format, sessionCount: sessions.length },
+      });
+    } catch (error) {
+      console.error('Error exporting sessions:', error);
+      alert('Greška pri izvozu sesija');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.buttons}>
+        <button
+          className={styles.exportButton}
+          onClick={() => handleExport('xlsx')}
+          disabled={sessionCount === 0 || exporting}>
+          📊 Excel
+        </button>
+        <button
+          className={styles.exportButton}
+          onClick={() => handleExport('csv')}
+          disabled={sessionCount === 0 || exporting}>
+          📄 CSV
+        </button>
+        <button
+          className={styles.configButton}
+          onClick={() => setIsConfigOpen(!isConfigOpen)}
+          title="Nazivi stupaca">
+          ⚙️
+        </button>
+      </div>
+
+      {isConfigOpen && (
+        <div className={styles.configPanel}>
+          {EXPORT_COLUMNS.map(key => (
+            <label key={key} className={styles.configRow}>
+              <span>{DEFAULT_EXPORT_HEADERS[key]}</span>
+              <input
+                className={styles.input}
+                value={headers[key]}
+                onChange={(e) => handleHeaderChange(key, e.target.value)}
+              />
+            </label>
+          ))}
+          <button className={styles.configButton} onClick={handleResetHeaders}>
+            ↺ Zadani nazivi
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionExport;
@@ -0,0 +1,147 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Session } from '../../types';
+import {
+  AUTO_CLOSE_CHECK_INTERVAL_MS,
+  AUTO_CLOSE_REASON_LABELS,
+  DEFAULT_LIFECYCLE_RULES,
+  findSessionsToClose,
+  runAutoClose,
+  type LifecycleRules,
+} from '../../utils/sessionLifecycle';
+import styles from './LifecyclePanel.module.css';
+
+interface LifecyclePanelProps {
+  sessions: Session[];
+  rules: LifecycleRules;
+  onRulesChange: (rules: LifecycleRules) => void;
+}
+
+const RULE_FIELDS: { key: 'idleMinutes' | 'maxDurationHours' | 'noPointsMinutes'; label: string; unit: string }[] = [
+  { key: 'idleMinutes', label: 'Bez GPS ažuriranja', unit: 'min' },
+  { key: 'noPointsMinutes', label: 'Bez ijedne GPS točke', unit: 'min' },
+  { key: 'maxDurationHours', label: 'Najdulje trajanje', unit: 'h' },
+];
+
+function formatSince(timestamp: { toDate?: () => Date } | undefined, now: Date): string {
+  const date = timestamp?.toDate?.();
+  if (!date) return '-';
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function LifecyclePanel({ sessions, rules, onRulesChange }: LifecyclePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [closing, setClosing] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), AUTO_CLOSE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Dry run: the same evaluation the automatic check uses, without writing anything
+  const candidates = useMemo(() => findSessionsToClose(sessions, rules, now), [sessions, rules, now]);
+
+  const handleRuleChange = (key: typeof RULE_FIELDS[number]['key'], value: string) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) return;
+    onRulesChange({ ...rules, [key]: parsed });
+  };
+
+  const handleCloseNow = async () => {
+    if (!confirm(`Zatvoriti ${candidates.length} ${candidates.length === 1 ? 'sesiju' : 'sesija'}?`)) return;
+
+    setClosing(true);
+    try {
+      await runAutoClose(candidates.map(c => c.session), { ...rules, enabled: true });
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <button
+          className={styles.toggleButton}
+          onClick={() => setExpanded(!expanded)}>
+          <span className={styles.toggleIcon}>
+            {expanded ? '🔽' : '▶️'}
+          </span>
+          <span>Automatsko zatvaranje</span>
+          {!rules.enabled && <span className={styles.disabledBadge}>isključeno</span>}
+          {rules.enabled && candidates.length > 0 && (
+            <span className={styles.countBadge}>{candidates.length}</span>
+          )}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className={styles.body}>
+          <div className={styles.rulesGrid}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={rules.enabled}
+                onChange={(e) => onRulesChange({ ...rules, enabled: e.target.checked })}
+              />
+              Automatski zatvaraj neaktivne sesije
+            </label>
+
+            {RULE_FIELDS.map(field => (
+              <label key={field.key} className={styles.ruleField}>
+                <span className={styles.label}>{field.label}</span>
+                <span className={styles.inputRow}>
+                  <input
+                    type="number"
+                    min={1}
+                    className={styles.input}
+                    value={rules[field.key]}
+                    onChange={(e) => handleRuleChange(field.key, e.target.value)}
+                  />
+                  {field.unit}
+                </span>
+              </label>
+            ))}
+
+            <button
+              className={styles.secondaryButton}
+              onClick={() => onRulesChange({ ...DEFAULT_LIFECYCLE_RULES, enabled: rules.enabled })}>
+              Zadane vrijednosti
+            </button>
+          </div>
+
+          <div className={styles.preview}>
+            <div className={styles.previewHeader}>
+              <strong>Pregled: bilo bi zatvoreno sada ({candidates.length})</strong>
+              {candidates.length > 0 && (
+                <button className={styles.dangerButton} disabled={closing} onClick={handleCloseNow}>
+                  {closing ? 'Zatvaram...' : 'Zatvori odmah'}
+                </button>
+              )}
+            </div>
+
+            {candidates.length === 0 ? (
+              <p className={styles.emptyText}>Nijedna aktivna sesija ne zadovoljava pravila.</p>
+            ) : (
+              <ul className={styles.candidateList}>
+                {candidates.map(({ session, reason }) => (
+                  <li key={session.id} className={styles.candidate}>
+                    <span className={styles.workerName}>{session.workerName}</span>
+                    <span className={styles.reasonBadge}>{AUTO_CLOSE_REASON_LABELS[reason]}</span>
+                    <span className={styles.meta}>
+                      Početak prije {formatSince(session.startTime, now)} · zadnji GPS prije {formatSince(session.lastLocationUpdate, now)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LifecyclePanel;
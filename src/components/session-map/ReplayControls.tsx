@@ -0,0 +1,73 @@
+import type { ReplayFrame } from '../../utils/replay';
+import { REPLAY_SPEEDS } from '../../utils/replay';
+import styles from './SessionMap.module.css';
+
+interface ReplayControlsProps {
+  startMs: number;
+  endMs: number;
+  timeMs: number;
+  isPlaying: boolean;
+  speed: number;
+  frame: ReplayFrame | null;
+  totalPoints: number;
+  onTogglePlay: () => void;
+  onSeek: (timeMs: number) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+function ReplayControls({
+  startMs,
+  endMs,
+  timeMs,
+  isPlaying,
+  speed,
+  frame,
+  totalPoints,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+}: ReplayControlsProps) {
+  return (
+    <div className={styles.replayControls}>
+      <div className={styles.replayRow}>
+        <button className={styles.replayButton} onClick={onTogglePlay}>
+          {isPlaying ? '⏸️' : '▶️'}
+        </button>
+
+        <input
+          type="range"
+          className={styles.replaySlider}
+          min={startMs}
+          max={endMs}
+          step={1000}
+          value={timeMs}
+          onChange={(e) => onSeek(Number(e.target.value))}
+        />
+
+        <div className={styles.replaySpeeds}>
+          {REPLAY_SPEEDS.map(option => (
+            <button
+              key={option}
+              className={`${styles.replaySpeedButton} ${speed === option ? styles.replaySpeedActive : ''}`}
+              onClick={() => onSpeedChange(option)}>
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={styles.replayInfo}>
+        <span>🕒 {new Date(timeMs).toLocaleTimeString('hr-HR')}</span>
+        {frame && (
+          <>
+            <span>⚡ {((frame.point.speed || 0) * 3.6).toFixed(1)} km/h</span>
+            <span>🎯 ±{Math.round(frame.point.accuracy || 0)} m</span>
+            <span>📍 {frame.index + 1}/{totalPoints}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ReplayControls;
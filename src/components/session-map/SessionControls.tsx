@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { Session, Territory } from '../../types';
+import {
+  SESSION_EDIT_LABELS,
+  addSessionNote,
+  correctSession,
+  endSession,
+  reopenSession,
+} from '../../utils/sessionActions';
+import styles from './SessionMap.module.css';
+
+interface SessionControlsProps {
+  session: Session;
+  canManage: boolean;
+}
+
+type ControlMode = 'end' | 'correct' | null;
+
+function SessionControls({ session, canManage }: SessionControlsProps) {
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [mode, setMode] = useState<ControlMode>(null);
+  const [busy, setBusy] = useState(false);
+  const [endReason, setEndReason] = useState('');
+  const [territoryId, setTerritoryId] = useState(session.territoryId || '');
+  const [flyerCount, setFlyerCount] = useState(session.flyerCount?.toString() || '');
+  const [noteText, setNoteText] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    if (!canManage) return;
+
+    const loadTerritories = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'territories'));
+        setTerritories((snapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        })) as Territory[]).sort((a, b) => a.name.localeCompare(b.name, 'hr')));
+      } catch (error) {
+        console.error('Error loading territories:', error);
+      }
+    };
+
+    loadTerritories();
+  }, [canManage]);
+
+  const notes = session.notes || [];
+  const history = session.editHistory || [];
+
+  const openMode = (nextMode: ControlMode) => {
+    setMode(mode === nextMode ? null : nextMode);
+    setEndReason('');
+    setTerritoryId(session.territoryId || '');
+    setFlyerCount(session.flyerCount?.toString() || '');
+  };
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setMode(null);
+    } catch (error) {
+      console.error(errorMessage, error);
+      alert(errorMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnd = () => {
+    if (!endReason.trim()) {
+      alert('Upišite razlog završetka sesije');
+      return;
+    }
+    runAction(() => endSession(session, endReason.trim()), 'Greška pri završavanju sesije');
+  };
+
+  const handleReopen = () => {
+    if (!confirm(`Ponovno otvoriti sesiju radnika ${session.workerName}?`)) return;
+    runAction(
+      () => reopenSession(session),
+      'Greška pri ponovnom otvaranju sesije. Radnik možda već ima aktivnu sesiju.'
+    );
+  };
+
+  const handleCorrect = () => {
+    const parsedFlyerCount = flyerCount.trim() ? Number(flyerCount) : null;
+    if (parsedFlyerCount !== null && (!Number.isInteger(parsedFlyerCount) || parsedFlyerCount < 0)) {
+      alert('Broj letaka mora biti pozitivan cijeli broj');
+      return;
+    }
+
+    runAction(
+      () => correctSession(session, { territoryId: territoryId || null, flyerCount: parsedFlyerCount }),
+      'Greška pri spremanju izmjena'
+    );
+  };
+
+  const handleAddNote = async () => {
+    const text = noteText.trim();
+    if (!text) return;
+
+    setBusy(true);
+    try {
+      await addSessionNote(session, text);
+      setNoteText('');
+    } catch (error) {
+      console.error('Error adding session note:', error);
+      alert('Greška pri spremanju bilješke');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!canManage && notes.length === 0 && !session.manualEndReason) return null;
+
+  return (
+    <div className={styles.controlsPanel}>
+      <div className={styles.geofenceHeader}>
+        <span className={styles.geofenceTitle}>🛠️ Upravljanje sesijom</span>
+        {history.length > 0 && (
+          <button className={styles.linkButton} onClick={() => setShowHistory(!showHistory)}>
+            {showHistory ? 'Sakrij povijest' : `Povijest izmjena (${history.length})`}
+          </button>
+        )}
+      </div>
+
+      {session.manualEndReason && (
+        <p className={styles.controlsInfo}>⏹️ Ručno završena: {session.manualEndReason}</p>
+      )}
+      {session.autoClosedReason && (
+        <p className={styles.controlsInfo}>⏱️ Automatski zatvorena: {session.autoClosedReason}</p>
+      )}
+
+      {canManage && (
+        <div className={styles.controlsActions}>
+          {session.status === 'active' ? (
+            <button className={styles.controlButton} disabled={busy} onClick={() => openMode('end')}>
+              ⏹️ Završi sesiju
+            </button>
+          ) : (
+            <button className={styles.controlButton} disabled={busy} onClick={handleReopen}>
+              ↩️ Ponovno otvori
+            </button>
+          )}
+          <button className={styles.controlButton} disabled={busy} onClick={() => openMode('correct')}>
+            ✏️ Ispravi podatke
+          </button>
+        </div>
+      )}
+
+      {mode === 'end' && (
+        <div className={styles.controlsForm}>
+          <textarea
+            className={styles.controlsInput}
+            placeholder="Razlog završetka (npr. radnik zaboravio završiti sesiju)"
+            value={endReason}
+            onChange={(e) => setEndReason(e.target.value)}
+            rows={2}
+          />
+          <button className={styles.exportButton} disabled={busy} onClick={handleEnd}>
+            {busy ? 'Spremam...' : 'Potvrdi završetak'}
+          </button>
+        </div>
+      )}
+
+      {mode === 'correct' && (
+        <div className={styles.controlsForm}>
+          <label className={styles.controlsField}>
+            Teren
+            <select
+              className={styles.controlsInput}
+              value={territoryId}
+              onChange={(e) => setTerritoryId(e.target.value)}>
+              <option value="">Bez terena</option>
+              {territories.map(territory => (
+                <option key={territory.id} value={territory.id}>{territory.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.controlsField}>
+            Broj letaka
+            <input
+              type="number"
+              min={0}
+              className={styles.controlsInput}
+              value={flyerCount}
+              onChange={(e) => setFlyerCount(e.target.value)}
+            />
+          </label>
+          <button className={styles.exportButton} disabled={busy} onClick={handleCorrect}>
+            {busy ? 'Spremam...' : 'Spremi izmjene'}
+          </button>
+        </div>
+      )}
+
+      {notes.length > 0 && (
+        <div className={styles.violationList}>
+          {notes.map((note, index) => (
+            <div key={index} className={styles.noteRow}>
+              <span className={styles.noteMeta}>
+                {note.createdAt?.toDate?.()?.toLocaleString('hr-HR')} · {note.author || '-'}
+              </span>
+              <span>{note.text}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div className={styles.controlsForm}>
+          <textarea
+            className={styles.controlsInput}
+            placeholder="Nova bilješka..."
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            rows={2}
+          />
+          <button className={styles.exportButton} disabled={busy || !noteText.trim()} onClick={handleAddNote}>
+            📝 Dodaj bilješku
+          </button>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className={styles.violationList}>
+          {[...history].reverse().map((edit, index) => (
+            <div key={index} className={styles.violationRow}>
+              <span>{edit.at?.toDate?.()?.toLocaleString('hr-HR')}</span>
+              <span>{SESSION_EDIT_LABELS[edit.action]}</span>
+              <span>{edit.by || '-'}</span>
+              {edit.reason && <span>„{edit.reason}”</span>}
+              {edit.after && (
+                <span>
+                  {Object.keys(edit.after)
+                    .map(key => `${key}: ${JSON.stringify(edit.before?.[key] ?? null)} → ${JSON.stringify(edit.after?.[key] ?? null)}`)
+                    .join(', ')}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionControls;
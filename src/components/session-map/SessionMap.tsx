@@ -1,24 +1,108 @@
-import { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Polyline, Polygon, useMap } from 'react-leaflet';
-import { collection, query, orderBy, getDocs, doc, getDoc } from 'firebase/firestore';
+import { useEffect, useState, useRef, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, CircleMarker, Polyline, Polygon, Rectangle, useMap } from 'react-leaflet';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../../config/firebase';
-import type { Session, LocationPoint, Territory } from '../../types';
-import { calculateSessionStats, formatDistance, formatSpeed } from '../../utils/statistics';
+import { useAuth } from '../../contexts/AuthContext';
+import type { Session, SessionStatus, LocationPoint, Territory } from '../../types';
+import { calculateSessionStats, formatDistance, formatSpeed, formatDuration, getPointTimeMs } from '../../utils/statistics';
 import { generateSessionPDF } from '../../utils/pdfExport';
-import { createSpeedSegments, getSpeedLegend } from '../../utils/speedColors';
+import { loadSessionLocations } from '../../utils/sessionPoints';
+import { logAudit } from '../../utils/auditLog';
+import { SESSION_STATUS_LABELS } from '../../utils/sessionLifecycle';
+import { exportSessionGPX, exportSessionKML } from '../../utils/routeExport';
+import { getSpeedLegend } from '../../utils/speedColors';
+import { parseTerritoryBoundary } from '../../utils/geometry';
+import {
+  calculateTerritoryCoverage,
+  DEFAULT_COVERAGE_BUFFER_M,
+  COVERAGE_BUFFER_OPTIONS,
+} from '../../utils/coverage';
+import { computeGeofenceSummary, detectGeofenceViolations, needsGeofenceSummary } from '../../utils/geofence';
+import { detectStops } from '../../utils/stops';
+import { getReplayBounds, getReplayFrame, REPLAY_TICK_MS } from '../../utils/replay';
+import {
+  cleanLocations,
+  loadGpsFilterConfig,
+  saveGpsFilterConfig,
+  ACCURACY_THRESHOLD_OPTIONS,
+  MAX_SPEED_OPTIONS,
+  SMOOTHING_LABELS,
+  type GpsFilterConfig,
+  type SmoothingMode,
+} from '../../utils/gpsFilter';
+import ReplayControls from './ReplayControls';
+import SessionControls from './SessionControls';
+import RouteLayer from '../route-layer/RouteLayer';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
 import styles from './SessionMap.module.css';
 
+const STATUS_CLASSES: Record<SessionStatus, string> = {
+  active: styles.statusActive,
+  completed: styles.statusCompleted,
+  auto_completed: styles.statusAutoCompleted,
+};
+
+function FitBoundsOnLoad({ locations, territoryCoords }: { locations: LocationPoint[], territoryCoords: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (locations.length === 0 && territoryCoords.length === 0) return;
+
+    const allPoints: [number, number][] = [];
+
+    if (territoryCoords.length > 0) {
+      allPoints.push(...territoryCoords);
+    }
+
+    if (locations.length > 0) {
+      allPoints.push(...locations.map(loc => [loc.latitude, loc.longitude] as [number, number]));
+    }
+
+    if (allPoints.length > 0) {
+      const bounds = L.latLngBounds(allPoints);
+      map.fitBounds(bounds, { padding: [50, 50] });
+    }
+  }, [map, locations, territoryCoords]);
+
+  return null;
+}
+
+function createStopIcon(number: number) {
+  return L.divIcon({
+    className: styles.stopMarker,
+    html: `${number}`,
+    iconSize: [24, 24],
+  });
+}
+
 interface SessionMapProps {
   session: Session;
 }
 
 function SessionMap({ session }: SessionMapProps) {
-  const [locations, setLocations] = useState<LocationPoint[]>([]);
+  const { can } = useAuth();
+  const canUpdateSessions = can('updateSessions');
+  const canManageSessions = can('manageSessions');
+  const [rawLocations, setRawLocations] = useState<LocationPoint[]>([]);
+  const [loadedSessionId, setLoadedSessionId] = useState<string | null>(null);
   const [territory, setTerritory] = useState<Territory | null>(null);
   const [loading, setLoading] = useState(true);
+  const [coverageBuffer, setCoverageBuffer] = useState(DEFAULT_COVERAGE_BUFFER_M);
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(10);
+  const [replayTimeMs, setReplayTimeMs] = useState(0);
+  const replayTimeRef = useRef(0);
   const mapContainerRef = useRef<HTMLDivElement>(null);
+  const [filterConfig, setFilterConfig] = useState<GpsFilterConfig>(loadGpsFilterConfig);
+
+  const cleaned = useMemo(
+    () => cleanLocations(rawLocations, filterConfig),
+    [rawLocations, filterConfig]
+  );
+  // Falls back to raw points if the filter would leave nothing to show
+  const locations = cleaned.locations.length > 0 ? cleaned.locations : rawLocations;
 
   useEffect(() => {
     loadSessionData();
@@ -28,79 +112,46 @@ function SessionMap({ session }: SessionMapProps) {
     setLoading(true);
     
     try {
-      const locationsQuery = query(
-        collection(db, 'locations', session.id, 'points'),
-        orderBy('timestampMs', 'asc')
-      );
-      
-      const locationsSnapshot = await getDocs(locationsQuery);
-      let locs = locationsSnapshot.docs.map(doc => doc.data()) as LocationPoint[];
-      
-      locs = locs.sort((a, b) => {
-        const timeA = a.timestampMs || 
-          (a.timestamp instanceof Date ? a.timestamp.getTime() : (a.timestamp as any)?.toMillis?.()) || 0;
-        const timeB = b.timestampMs || 
-          (b.timestamp instanceof Date ? b.timestamp.getTime() : (b.timestamp as any)?.toMillis?.()) || 0;
-        return timeA - timeB;
-      });
-      
-      console.log(`Loaded ${locs.length} points for session ${session.id}`);
-      
-      setLocations(locs);
-
-      if (session.territoryId) {
-        const territoryDoc = await getDoc(doc(db, 'territories', session.territoryId));
-        if (territoryDoc.exists()) {
-          setTerritory({ id: territoryDoc.id, ...territoryDoc.data() } as Territory);
-        }
-      }
+      setRawLocations(await loadSessionLocations(session));
+      setLoadedSessionId(session.id);
     } catch (error) {
       console.error('Error loading session data:', error);
-      
-      try {
-        const locationsQuery = query(
-          collection(db, 'locations', session.id, 'points'),
-          orderBy('timestamp', 'asc')
-        );
-        
-        const locationsSnapshot = await getDocs(locationsQuery);
-        const locs = locationsSnapshot.docs.map(doc => doc.data()) as LocationPoint[];
-        
-        console.log(`Loaded ${locs.length} points (fallback) for session ${session.id}`);
-        
-        setLocations(locs);
-      } catch (fallbackError) {
-        console.error('Fallback error:', fallbackError);
-      }
     } finally {
       setLoading(false);
     }
   };
 
-  function FitBoundsOnLoad({ locations, territoryCoords }: { locations: LocationPoint[], territoryCoords: [number, number][] }) {
-    const map = useMap();
-    
-    useEffect(() => {
-      if (locations.length === 0 && territoryCoords.length === 0) return;
-      
-      const allPoints: [number, number][] = [];
-      
-      if (territoryCoords.length > 0) {
-        allPoints.push(...territoryCoords);
-      }
-      
-      if (locations.length > 0) {
-        allPoints.push(...locations.map(loc => [loc.latitude, loc.longitude] as [number, number]));
-      }
-      
-      if (allPoints.length > 0) {
-        const bounds = L.latLngBounds(allPoints);
-        map.fitBounds(bounds, { padding: [50, 50] });
+  // Kept separate from the points so a corrected territory reloads on its own
+  useEffect(() => {
+    const territoryId = session.territoryId;
+    let cancelled = false;
+
+    const loadTerritory = async () => {
+      try {
+        const territoryDoc = territoryId ? await getDoc(doc(db, 'territories', territoryId)) : null;
+        if (cancelled) return;
+        setTerritory(territoryDoc?.exists() ? { id: territoryDoc.id, ...territoryDoc.data() } as Territory : null);
+      } catch (error) {
+        console.error('Error loading territory:', error);
       }
-    }, [map, locations, territoryCoords]);
-    
-    return null;
-  }
+    };
+
+    loadTerritory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session.territoryId]);
+
+  const logSessionExport = (format: 'pdf' | 'gpx' | 'kml') => {
+    logAudit({
+      action: 'data_exported',
+      targetType: 'session',
+      targetId: session.id,
+      description: `Izvoz sesije ${session.workerName} (${format.toUpperCase()})`,
+      after: { format, pointsCount: locations.length },
+    });
+  };
 
   const handleExportPDF = async () => {
     if (!mapContainerRef.current) {
@@ -114,13 +165,106 @@ function SessionMap({ session }: SessionMapProps) {
         locations,
         territory,
         mapElement: mapContainerRef.current,
+        coverageBufferMeters: coverageBuffer,
       });
+      logSessionExport('pdf');
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Greška pri generiranju PDF-a');
     }
   };
 
+  const territoryCoords = useMemo(
+    () => parseTerritoryBoundary(territory?.boundaryGeoJSON),
+    [territory]
+  );
+
+  const coverage = useMemo(
+    () => locations.length > 0 && territoryCoords.length > 0
+      ? calculateTerritoryCoverage(locations, territoryCoords, coverageBuffer)
+      : null,
+    [locations, territoryCoords, coverageBuffer]
+  );
+
+  const violations = useMemo(
+    () => territoryCoords.length > 0 ? detectGeofenceViolations(locations, territoryCoords) : [],
+    [locations, territoryCoords]
+  );
+
+  const stops = useMemo(() => detectStops(locations), [locations]);
+
+  useEffect(() => {
+    const territoryId = session.territoryId;
+    if (!canUpdateSessions || !territoryId || !needsGeofenceSummary(session)) return;
+    // The points and territory may still belong to the previously selected session
+    if (loadedSessionId !== session.id || territory?.id !== territoryId || territoryCoords.length === 0 || rawLocations.length === 0) return;
+
+    updateDoc(doc(db, 'sessions', session.id), { ...computeGeofenceSummary(rawLocations, territoryCoords, territoryId) })
+      .catch(error => console.error('Error saving geofence summary:', error));
+  }, [session, rawLocations, loadedSessionId, territory, territoryCoords, canUpdateSessions]);
+
+  useEffect(() => {
+    setIsReplayOpen(false);
+    setIsPlaying(false);
+  }, [session.id]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const { endMs } = getReplayBounds(locations);
+    const interval = setInterval(() => {
+      const next = Math.min(replayTimeRef.current + REPLAY_TICK_MS * replaySpeed, endMs);
+      replayTimeRef.current = next;
+      setReplayTimeMs(next);
+      if (next >= endMs) setIsPlaying(false);
+    }, REPLAY_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, replaySpeed, locations]);
+
+  const handleExportRoute = (format: 'gpx' | 'kml') => {
+    try {
+      if (format === 'gpx') {
+        exportSessionGPX(session, rawLocations);
+      } else {
+        exportSessionKML(session, rawLocations, territory);
+      }
+      logSessionExport(format);
+    } catch (error) {
+      console.error(`Error generating ${format.toUpperCase()}:`, error);
+      alert(`Greška pri generiranju ${format.toUpperCase()} datoteke`);
+    }
+  };
+
+  const handleFilterChange = (changes: Partial<GpsFilterConfig>) => {
+    const newConfig = { ...filterConfig, ...changes };
+    setFilterConfig(newConfig);
+    saveGpsFilterConfig(newConfig);
+  };
+
+  const seekReplay = (timeMs: number) => {
+    replayTimeRef.current = timeMs;
+    setReplayTimeMs(timeMs);
+  };
+
+  const toggleReplay = () => {
+    if (isReplayOpen) {
+      setIsReplayOpen(false);
+      setIsPlaying(false);
+      return;
+    }
+    seekReplay(getReplayBounds(locations).startMs);
+    setIsReplayOpen(true);
+  };
+
+  const togglePlay = () => {
+    const { startMs, endMs } = getReplayBounds(locations);
+    if (!isPlaying && replayTimeRef.current >= endMs) {
+      seekReplay(startMs);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
   if (loading) {
     return (
       <div className={styles.loading}>
@@ -130,11 +274,12 @@ function SessionMap({ session }: SessionMapProps) {
     );
   }
 
-  if (locations.length === 0) {
+  if (rawLocations.length === 0) {
     return (
       <div className={styles.emptyState}>
         <p className={styles.emptyIcon}>📍</p>
         <p className={styles.emptyText}>Nema GPS podataka za ovu sesiju</p>
+        <SessionControls key={session.id} session={session} canManage={canManageSessions} />
       </div>
     );
   }
@@ -144,25 +289,23 @@ function SessionMap({ session }: SessionMapProps) {
     locations[0].longitude
   ];
 
-  let territoryCoords: [number, number][] = [];
-  if (territory?.boundaryGeoJSON) {
-    try {
-      const geoJSON = JSON.parse(territory.boundaryGeoJSON);
-      territoryCoords = geoJSON.coordinates[0].map((coord: number[]) => 
-        [coord[1], coord[0]] as [number, number]
-      );
-    } catch (e) {
-      console.error('Error parsing boundary:', e);
-    }
-  }
-
   const stats = calculateSessionStats(
     locations,
     session.startTime?.toDate() || new Date(),
+    session.endTime?.toDate() || null,
+    stops
+  );
+  const rawStats = calculateSessionStats(
+    rawLocations,
+    session.startTime?.toDate() || new Date(),
     session.endTime?.toDate() || null
   );
 
-  const speedSegments = createSpeedSegments(locations);
+  const replayBounds = getReplayBounds(locations);
+  const replayFrame = isReplayOpen ? getReplayFrame(locations, replayTimeMs) : null;
+  const routeLocations = replayFrame
+    ? [...locations.slice(0, replayFrame.index + 1), replayFrame.interpolated]
+    : locations;
   const speedLegend = getSpeedLegend();
 
   return (
@@ -180,16 +323,34 @@ function SessionMap({ session }: SessionMapProps) {
               🗺️ {territory.name}
             </span>
           )}
-          <span className={`${styles.statusBadge} ${
-            session.status === 'active' ? styles.statusActive : styles.statusCompleted
-          }`}>
-            {session.status === 'active' ? '🟢 Aktivan' : '✅ Završen'}
+          <span
+            className={`${styles.statusBadge} ${STATUS_CLASSES[session.status]}`}
+            title={session.autoClosedReason}>
+            {SESSION_STATUS_LABELS[session.status]}
           </span>
           <button 
             className={styles.exportButton}
             onClick={handleExportPDF}>
             📄 Export PDF
           </button>
+          <div className={styles.exportRow}>
+            <button
+              className={styles.exportButton}
+              onClick={() => handleExportRoute('gpx')}>
+              🧭 GPX
+            </button>
+            <button
+              className={styles.exportButton}
+              onClick={() => handleExportRoute('kml')}>
+              🌍 KML
+            </button>
+          </div>
+          <button
+            className={styles.exportButton}
+            onClick={toggleReplay}
+            disabled={locations.length < 2}>
+            {isReplayOpen ? '⏹️ Zatvori reprodukciju' : '🎬 Reprodukcija'}
+          </button>
         </div>
       </div>
 
@@ -199,6 +360,7 @@ function SessionMap({ session }: SessionMapProps) {
           <div className={styles.statContent}>
             <p className={styles.statLabel}>Udaljenost</p>
             <p className={styles.statValue}>{formatDistance(stats.totalDistance)}</p>
+            <p className={styles.statRaw}>sirovo {formatDistance(rawStats.totalDistance)}</p>
           </div>
         </div>
 
@@ -215,6 +377,7 @@ function SessionMap({ session }: SessionMapProps) {
           <div className={styles.statContent}>
             <p className={styles.statLabel}>Prosječna brzina</p>
             <p className={styles.statValue}>{formatSpeed(stats.averageSpeed)}</p>
+            <p className={styles.statRaw}>sirovo {formatSpeed(rawStats.averageSpeed)}</p>
           </div>
         </div>
 
@@ -223,6 +386,7 @@ function SessionMap({ session }: SessionMapProps) {
           <div className={styles.statContent}>
             <p className={styles.statLabel}>Maks brzina</p>
             <p className={styles.statValue}>{formatSpeed(stats.maxSpeed)}</p>
+            <p className={styles.statRaw}>sirovo {formatSpeed(rawStats.maxSpeed)}</p>
           </div>
         </div>
 
@@ -231,6 +395,24 @@ function SessionMap({ session }: SessionMapProps) {
           <div className={styles.statContent}>
             <p className={styles.statLabel}>GPS točaka</p>
             <p className={styles.statValue}>{locations.length}</p>
+            <p className={styles.statRaw}>od {rawLocations.length} sirovih</p>
+          </div>
+        </div>
+
+        <div className={styles.statBox}>
+          <div className={styles.statIcon}>☕</div>
+          <div className={styles.statContent}>
+            <p className={styles.statLabel}>Vrijeme stajanja</p>
+            <p className={styles.statValue}>{formatDuration(stats.stoppedTime)}</p>
+            <p className={styles.statRaw}>{stops.length} stajanja</p>
+          </div>
+        </div>
+
+        <div className={styles.statBox}>
+          <div className={styles.statIcon}>🚶</div>
+          <div className={styles.statContent}>
+            <p className={styles.statLabel}>Vrijeme kretanja</p>
+            <p className={styles.statValue}>{formatDuration(stats.movingTime)}</p>
           </div>
         </div>
 
@@ -243,8 +425,141 @@ function SessionMap({ session }: SessionMapProps) {
             </div>
           </div>
         )}
+
+        {coverage && (
+          <div className={styles.statBox}>
+            <div className={styles.statIcon}>🧭</div>
+            <div className={styles.statContent}>
+              <p className={styles.statLabel}>Pokrivenost terena</p>
+              <p className={styles.statValue}>{coverage.coveragePercent.toFixed(0)}%</p>
+              <select
+                className={styles.bufferSelect}
+                value={coverageBuffer}
+                onChange={(e) => setCoverageBuffer(Number(e.target.value))}>
+                {COVERAGE_BUFFER_OPTIONS.map(buffer => (
+                  <option key={buffer} value={buffer}>± {buffer} m</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
       </div>
 
+      <div className={styles.filterBar}>
+        <span className={styles.filterTitle}>🧹 Filtriranje GPS-a</span>
+        <label>
+          Točnost
+          <select
+            className={styles.bufferSelect}
+            value={filterConfig.maxAccuracyMeters}
+            onChange={(e) => handleFilterChange({ maxAccuracyMeters: Number(e.target.value) })}>
+            {ACCURACY_THRESHOLD_OPTIONS.map(value => (
+              <option key={value} value={value}>{value > 0 ? `≤ ${value} m` : 'Sve'}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Maks brzina
+          <select
+            className={styles.bufferSelect}
+            value={filterConfig.maxSpeedKmh}
+            onChange={(e) => handleFilterChange({ maxSpeedKmh: Number(e.target.value) })}>
+            {MAX_SPEED_OPTIONS.map(value => (
+              <option key={value} value={value}>{value > 0 ? `${value} km/h` : 'Bez ograničenja'}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Zaglađivanje
+          <select
+            className={styles.bufferSelect}
+            value={filterConfig.smoothing}
+            onChange={(e) => handleFilterChange({ smoothing: e.target.value as SmoothingMode })}>
+            {(Object.keys(SMOOTHING_LABELS) as SmoothingMode[]).map(mode => (
+              <option key={mode} value={mode}>{SMOOTHING_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        <span className={styles.filterSummary}>
+          Uklonjeno: {cleaned.removedByAccuracy} (točnost), {cleaned.removedBySpeed} (brzina)
+        </span>
+      </div>
+
+      {territoryCoords.length > 0 && (
+        <div className={styles.geofenceTimeline}>
+          <div className={styles.geofenceHeader}>
+            <span className={styles.geofenceTitle}>🚧 Izlasci s terena</span>
+            <span className={violations.length > 0 ? styles.geofenceCountWarning : styles.geofenceCountOk}>
+              {violations.length > 0
+                ? `${violations.length} × ukupno ${formatDuration(Math.round(violations.reduce((sum, v) => sum + v.durationMs, 0) / 1000))}`
+                : 'Bez izlazaka'}
+            </span>
+          </div>
+
+          {violations.length > 0 && (
+            <>
+              <div className={styles.timelineBar}>
+                {violations.map((violation, index) => {
+                  const routeStart = getPointTimeMs(locations[0]);
+                  const routeDuration = Math.max(1, getPointTimeMs(locations[locations.length - 1]) - routeStart);
+                  return (
+                    <div
+                      key={index}
+                      className={styles.timelineViolation}
+                      title={`${new Date(violation.startMs).toLocaleTimeString('hr-HR')} - ${new Date(violation.endMs).toLocaleTimeString('hr-HR')}`}
+                      style={{
+                        left: `${((violation.startMs - routeStart) / routeDuration) * 100}%`,
+                        width: `${Math.max(0.5, (violation.durationMs / routeDuration) * 100)}%`,
+                      }}
+                    />
+                  );
+                })}
+              </div>
+
+              <div className={styles.violationList}>
+                {violations.map((violation, index) => (
+                  <div key={index} className={styles.violationRow}>
+                    <span>
+                      {new Date(violation.startMs).toLocaleTimeString('hr-HR')} - {new Date(violation.endMs).toLocaleTimeString('hr-HR')}
+                    </span>
+                    <span>⏱️ {formatDuration(Math.round(violation.durationMs / 1000))}</span>
+                    <span>📏 do {formatDistance(violation.maxDistanceMeters)} od granice</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {stops.length > 0 && (
+        <div className={styles.stopsPanel}>
+          <span className={styles.geofenceTitle}>☕ Stajanja</span>
+          <div className={styles.violationList}>
+            {stops.map((stop, index) => (
+              <div key={index} className={styles.violationRow}>
+                <span className={styles.stopNumber}>{index + 1}</span>
+                <span>
+                  {new Date(stop.startMs).toLocaleTimeString('hr-HR')} - {new Date(stop.endMs).toLocaleTimeString('hr-HR')}
+                </span>
+                <span>⏱️ {formatDuration(Math.round(stop.durationMs / 1000))}</span>
+                <span>📍 {stop.latitude.toFixed(5)}, {stop.longitude.toFixed(5)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <SessionControls key={session.id} session={session} canManage={canManageSessions} />
+
+      <svg className={styles.svgDefs} aria-hidden="true">
+        <defs>
+          <pattern id="uncovered-hatch" width="8" height="8" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+            <line x1="0" y1="0" x2="0" y2="8" stroke="#EF4444" strokeWidth="3" />
+          </pattern>
+        </defs>
+      </svg>
+
       <div ref={mapContainerRef} className={styles.mapWrapper}>
         <MapContainer
           center={center}
@@ -268,21 +583,48 @@ function SessionMap({ session }: SessionMapProps) {
             />
           )}
 
-          {speedSegments.map((segment, index) => (
+          {coverage?.uncoveredRects.map((bounds, index) => (
+            <Rectangle
+              key={`uncovered-${index}`}
+              bounds={bounds}
+              interactive={false}
+              pathOptions={{
+                stroke: false,
+                fillColor: 'url(#uncovered-hatch)',
+                fillOpacity: 0.5,
+              }}
+            />
+          ))}
+
+          <RouteLayer locations={routeLocations} />
+
+          {violations.map((violation, index) => (
             <Polyline
-              key={index}
-              positions={segment.positions}
+              key={`violation-${index}`}
+              positions={locations
+                .slice(Math.max(0, violation.startIndex - 1), violation.endIndex + 2)
+                .map(loc => [loc.latitude, loc.longitude] as [number, number])}
               pathOptions={{
-                color: segment.color,
-                weight: 4,
-                opacity: 0.8
+                color: '#7C3AED',
+                weight: 6,
+                opacity: 0.9,
+                dashArray: '8 6'
               }}
             />
           ))}
 
           <Marker position={[locations[0].latitude, locations[0].longitude]} />
 
-          {session.status === 'completed' && locations.length > 1 && (
+          {stops.map((stop, index) => (
+            <Marker
+              key={`stop-${index}`}
+              position={[stop.latitude, stop.longitude]}
+              icon={createStopIcon(index + 1)}
+              title={`${index + 1}. stajanje - ${formatDuration(Math.round(stop.durationMs / 1000))}`}
+            />
+          ))}
+
+          {session.status !== 'active' && locations.length > 1 && (
             <Marker 
               position={[
                 locations[locations.length - 1].latitude,
@@ -290,9 +632,37 @@ function SessionMap({ session }: SessionMapProps) {
               ]}
             />
           )}
+
+          {replayFrame && (
+            <CircleMarker
+              center={replayFrame.position}
+              radius={8}
+              pathOptions={{
+                color: 'white',
+                fillColor: '#1F2937',
+                fillOpacity: 1,
+                weight: 3
+              }}
+            />
+          )}
         </MapContainer>
       </div>
 
+      {isReplayOpen && (
+        <ReplayControls
+          startMs={replayBounds.startMs}
+          endMs={replayBounds.endMs}
+          timeMs={replayTimeMs}
+          isPlaying={isPlaying}
+          speed={replaySpeed}
+          frame={replayFrame}
+          totalPoints={locations.length}
+          onTogglePlay={togglePlay}
+          onSeek={seekReplay}
+          onSpeedChange={setReplaySpeed}
+        />
+      )}
+
             <div className={styles.speedLegend} style={{
         backgroundColor: 'white',
         padding: '12px 16px',
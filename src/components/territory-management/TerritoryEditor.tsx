@@ -0,0 +1,388 @@
+import { useEffect, useReducer, useState } from 'react';
+import { MapContainer, TileLayer, Polygon, Polyline, Marker, useMap, useMapEvents } from 'react-leaflet';
+import { collection, addDoc, updateDoc, doc } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { logAudit, diffValues } from '../../utils/auditLog';
+import type { Territory } from '../../types';
+import {
+  parseTerritoryBoundary,
+  openRing,
+  verticesToBoundaryGeoJSON,
+  findSelfIntersections,
+  type LatLngTuple,
+} from '../../utils/geometry';
+import { TERRITORY_COLORS } from '../../utils/territoryImport';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+import styles from './TerritoryManagement.module.css';
+
+interface TerritoryEditorProps {
+  territory: Territory | null;
+  onClose: () => void;
+}
+
+interface EditHistory {
+  past: LatLngTuple[][];
+  present: LatLngTuple[];
+  future: LatLngTuple[][];
+}
+
+type EditAction =
+  | { type: 'set'; vertices: LatLngTuple[] }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const MAX_HISTORY = 100;
+
+function historyReducer(state: EditHistory, action: EditAction): EditHistory {
+  switch (action.type) {
+    case 'set':
+      return {
+        past: [...state.past, state.present].slice(-MAX_HISTORY),
+        present: action.vertices,
+        future: [],
+      };
+    case 'undo':
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+      };
+    case 'redo':
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+      };
+  }
+}
+
+const vertexIcon = L.divIcon({
+  className: styles.vertexHandle,
+  iconSize: [14, 14],
+});
+
+const midpointIcon = L.divIcon({
+  className: styles.midpointHandle,
+  iconSize: [10, 10],
+});
+
+function MapClickHandler({ onClick }: { onClick: (latlng: LatLngTuple) => void }) {
+  useMapEvents({
+    click(e) {
+      onClick([e.latlng.lat, e.latlng.lng]);
+    },
+  });
+  return null;
+}
+
+function FitInitialBounds({ vertices }: { vertices: LatLngTuple[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (vertices.length > 0) {
+      map.fitBounds(L.latLngBounds(vertices), { padding: [40, 40] });
+    }
+  }, [map, vertices]);
+
+  return null;
+}
+
+function TerritoryEditor({ territory, onClose }: TerritoryEditorProps) {
+  const [initialVertices] = useState(() => openRing(parseTerritoryBoundary(territory?.boundaryGeoJSON)));
+  const [history, dispatch] = useReducer(historyReducer, {
+    past: [],
+    present: initialVertices,
+    future: [],
+  });
+  const [mode, setMode] = useState<'draw' | 'edit' | 'delete'>(initialVertices.length >= 3 ? 'edit' : 'draw');
+  const [name, setName] = useState(territory?.name || '');
+  const [color, setColor] = useState(territory?.color || TERRITORY_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const vertices = history.present;
+  const intersections = findSelfIntersections(vertices);
+  const intersectingEdges = new Set(intersections.flat());
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // Inside a text field the shortcut belongs to the field, not the polygon
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'undo' });
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        dispatch({ type: 'redo' });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const setVertices = (next: LatLngTuple[]) => {
+    setError('');
+    dispatch({ type: 'set', vertices: next });
+  };
+
+  const handleMapClick = (latlng: LatLngTuple) => {
+    if (mode !== 'draw') return;
+    setVertices([...vertices, latlng]);
+  };
+
+  const moveVertex = (index: number, latlng: LatLngTuple) => {
+    setVertices(vertices.map((v, i) => i === index ? latlng : v));
+  };
+
+  const insertVertex = (afterIndex: number, latlng: LatLngTuple) => {
+    const next = [...vertices];
+    next.splice(afterIndex + 1, 0, latlng);
+    setVertices(next);
+  };
+
+  const removeVertex = (index: number) => {
+    if (vertices.length <= 3) {
+      setError('Poligon mora imati barem 3 točke');
+      return;
+    }
+    setVertices(vertices.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Ime terena je obavezno');
+      return;
+    }
+    if (vertices.length < 3) {
+      setError('Poligon mora imati barem 3 točke');
+      return;
+    }
+    if (intersections.length > 0) {
+      setError('Poligon se siječe sam sa sobom, ispravi označene rubove');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changes = {
+        name: name.trim(),
+        color,
+        boundaryGeoJSON: verticesToBoundaryGeoJSON(vertices),
+      };
+
+      if (territory) {
+        await updateDoc(doc(db, 'territories', territory.id), changes);
+        console.log(`Territory ${territory.id} updated`);
+
+        // The boundary itself is too large to log, its vertex count shows the edit
+        await logAudit({
+          action: 'territory_updated',
+          targetType: 'territory',
+          targetId: territory.id,
+          description: `Izmjena terena ${changes.name}`,
+          ...diffValues(
+            {
+              name: territory.name,
+              color: territory.color,
+              vertexCount: openRing(parseTerritoryBoundary(territory.boundaryGeoJSON)).length,
+              boundaryChanged: false,
+            },
+            {
+              name: changes.name,
+              color: changes.color,
+              vertexCount: vertices.length,
+              boundaryChanged: changes.boundaryGeoJSON !== territory.boundaryGeoJSON,
+            }
+          ),
+        });
+      } else {
+        const ref = await addDoc(collection(db, 'territories'), {
+          ...changes,
+          folder: '',
+          flyerCount: null,
+          assignedTo: null,
+        });
+        console.log(`Territory ${ref.id} created`);
+
+        await logAudit({
+          action: 'territory_created',
+          targetType: 'territory',
+          targetId: ref.id,
+          description: `Novi teren ${changes.name}`,
+          after: { name: changes.name, color: changes.color, vertexCount: vertices.length },
+        });
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error saving territory:', err);
+      alert('Greška pri spremanju terena');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const edges = vertices.map((vertex, index) => [vertex, vertices[(index + 1) % vertices.length]] as const);
+
+  return (
+    <div className={styles.wizard}>
+      <div className={styles.wizardHeader}>
+        <div>
+          <h3>{territory ? `✏️ Uredi teren: ${territory.name}` : '✏️ Novi teren'}</h3>
+          <p className={styles.wizardSubtitle}>
+            {mode === 'draw' && 'Klikni na mapu za dodavanje točaka'}
+            {mode === 'edit' && 'Povuci točke za pomicanje, klikni na međutočku za dodavanje, desni klik za brisanje'}
+            {mode === 'delete' && 'Klikni na točku za brisanje'}
+          </p>
+        </div>
+        <div className={styles.wizardActions}>
+          <button className={styles.secondaryButton} onClick={onClose} disabled={saving}>
+            Odustani
+          </button>
+          <button className={styles.primaryButton} onClick={handleSave} disabled={saving}>
+            {saving ? 'Spremam...' : 'Spremi'}
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.editorToolbar}>
+        <input
+          className={styles.input}
+          placeholder="Ime terena"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={saving}
+        />
+        <input
+          type="color"
+          className={styles.colorInput}
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          disabled={saving}
+        />
+        <button
+          className={`${styles.secondaryButton} ${mode === 'draw' ? styles.modeActive : ''}`}
+          onClick={() => setMode('draw')}>
+          ✏️ Crtaj
+        </button>
+        <button
+          className={`${styles.secondaryButton} ${mode === 'edit' ? styles.modeActive : ''}`}
+          onClick={() => setMode('edit')}
+          disabled={vertices.length < 3}>
+          ✋ Uredi
+        </button>
+        <button
+          className={`${styles.secondaryButton} ${mode === 'delete' ? styles.modeActive : ''}`}
+          onClick={() => setMode('delete')}
+          disabled={vertices.length <= 3}>
+          🗑️ Briši točke
+        </button>
+        <button
+          className={styles.secondaryButton}
+          onClick={() => { setVertices([]); setMode('draw'); }}
+          disabled={vertices.length === 0}>
+          ♻️ Nacrtaj iznova
+        </button>
+        <button
+          className={styles.secondaryButton}
+          onClick={() => dispatch({ type: 'undo' })}
+          disabled={history.past.length === 0}
+          title="Ctrl+Z">
+          ↶ Poništi
+        </button>
+        <button
+          className={styles.secondaryButton}
+          onClick={() => dispatch({ type: 'redo' })}
+          disabled={history.future.length === 0}
+          title="Ctrl+Y">
+          ↷ Ponovi
+        </button>
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+      {!error && intersections.length > 0 && (
+        <p className={styles.warning}>⚠️ Poligon se siječe sam sa sobom ({intersections.length})</p>
+      )}
+
+      <div className={styles.editorMap}>
+        <MapContainer
+          center={[43.5081, 16.4402]}
+          zoom={13}
+          doubleClickZoom={false}
+          style={{ height: '100%', width: '100%', borderRadius: '0.75rem' }}>
+          <FitInitialBounds vertices={initialVertices} />
+          <MapClickHandler onClick={handleMapClick} />
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+
+          {vertices.length >= 3 && mode !== 'draw' ? (
+            <Polygon
+              positions={vertices}
+              pathOptions={{ color, fillColor: color, fillOpacity: 0.2, weight: 2 }}
+            />
+          ) : vertices.length >= 2 && (
+            <Polyline
+              positions={mode === 'draw' && vertices.length >= 3 ? [...vertices, vertices[0]] : vertices}
+              pathOptions={{ color, weight: 2, dashArray: '6 6' }}
+            />
+          )}
+
+          {edges.map(([from, to], index) => intersectingEdges.has(index) && (
+            <Polyline
+              key={`intersection-${index}`}
+              positions={[from, to]}
+              pathOptions={{ color: '#DC2626', weight: 5 }}
+            />
+          ))}
+
+          {mode !== 'draw' && vertices.length >= 3 && edges.map(([from, to], index) => {
+            const midpoint: LatLngTuple = [(from[0] + to[0]) / 2, (from[1] + to[1]) / 2];
+            return (
+              <Marker
+                key={`midpoint-${index}-${from[0]}-${from[1]}`}
+                position={midpoint}
+                icon={midpointIcon}
+                eventHandlers={{
+                  click: () => insertVertex(index, midpoint),
+                }}
+              />
+            );
+          })}
+
+          {vertices.map((vertex, index) => (
+            <Marker
+              key={`vertex-${index}-${vertex[0]}-${vertex[1]}`}
+              position={vertex}
+              icon={vertexIcon}
+              draggable={mode === 'edit'}
+              eventHandlers={{
+                dragend: (e) => {
+                  const latlng = (e.target as L.Marker).getLatLng();
+                  moveVertex(index, [latlng.lat, latlng.lng]);
+                },
+                click: () => {
+                  if (mode === 'delete') removeVertex(index);
+                },
+                contextmenu: () => {
+                  if (mode === 'edit') removeVertex(index);
+                },
+              }}
+            />
+          ))}
+        </MapContainer>
+      </div>
+    </div>
+  );
+}
+
+export default TerritoryEditor;
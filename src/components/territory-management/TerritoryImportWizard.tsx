@@ -0,0 +1,303 @@
+import { useEffect, useState } from 'react';
+import { MapContainer, TileLayer, Polygon, Tooltip, useMap } from 'react-leaflet';
+import { collection, doc, writeBatch } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { logAudit } from '../../utils/auditLog';
+import type { Territory } from '../../types';
+import {
+  parseTerritoryFile,
+  ringToBoundaryGeoJSON,
+  findDuplicates,
+  getImportError,
+  TERRITORY_COLORS,
+  type ImportedTerritory,
+} from '../../utils/territoryImport';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+import styles from './TerritoryManagement.module.css';
+
+// Firestore's limit on writes in a single batch
+const IMPORT_BATCH_SIZE = 500;
+
+interface TerritoryImportWizardProps {
+  existingTerritories: Territory[];
+  onClose: () => void;
+}
+
+interface ImportRow extends ImportedTerritory {
+  include: boolean;
+  color: string;
+  flyerCount: string;
+}
+
+function FitImportBounds({ imported }: { imported: ImportedTerritory[] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const points = imported
+      .filter(item => !item.error)
+      .flatMap(item => item.ring.map(([lng, lat]) => [lat, lng] as [number, number]));
+
+    if (points.length > 0) {
+      map.fitBounds(L.latLngBounds(points), { padding: [30, 30] });
+    }
+  }, [map, imported]);
+
+  return null;
+}
+
+function TerritoryImportWizard({ existingTerritories, onClose }: TerritoryImportWizardProps) {
+  const [step, setStep] = useState<'upload' | 'review'>('upload');
+  const [imported, setImported] = useState<ImportedTerritory[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [parseError, setParseError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [savedCount, setSavedCount] = useState(0);
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setParseError('');
+    setFileName(file.name);
+
+    try {
+      const text = await file.text();
+      const parsed = parseTerritoryFile(file.name, text);
+
+      if (parsed.length === 0) {
+        setParseError('U datoteci nisu pronađeni poligoni');
+        return;
+      }
+
+      setImported(parsed);
+      setRows(parsed.map((item, index) => ({
+        ...item,
+        include: !item.error,
+        color: TERRITORY_COLORS[index % TERRITORY_COLORS.length],
+        flyerCount: '',
+      })));
+      setStep('review');
+    } catch (error) {
+      console.error('Error parsing territory file:', error);
+      setParseError(error instanceof Error ? error.message : 'Greška pri čitanju datoteke');
+    }
+  };
+
+  const updateRow = (key: string, changes: Partial<ImportRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const duplicates = findDuplicates(rows, existingTerritories);
+  const selectedRows = rows.filter(row => row.include && !getImportError(row));
+  const invalidCount = rows.filter(row => getImportError(row)).length;
+
+  const handleSave = async () => {
+    if (selectedRows.length === 0) return;
+
+    const duplicateCount = selectedRows.filter(row => duplicates.has(row.key)).length;
+    if (duplicateCount > 0 && !confirm(`${duplicateCount} terena izgledaju kao duplikati. Svejedno uvesti?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setSavedCount(0);
+
+    // Batches commit one after another, so a failure keeps the ones already saved
+    const savedRows: ImportRow[] = [];
+    let failed = false;
+
+    try {
+      for (let i = 0; i < selectedRows.length; i += IMPORT_BATCH_SIZE) {
+        const chunk = selectedRows.slice(i, i + IMPORT_BATCH_SIZE);
+        const batch = writeBatch(db);
+
+        chunk.forEach(row => {
+          const flyerCount = parseInt(row.flyerCount, 10);
+          const territory: Omit<Territory, 'id'> = {
+            name: row.name.trim(),
+            folder: row.folder,
+            flyerCount: Number.isFinite(flyerCount) ? flyerCount : null,
+            assignedTo: null,
+            color: row.color,
+            boundaryGeoJSON: ringToBoundaryGeoJSON(row.ring),
+          };
+          batch.set(doc(collection(db, 'territories')), territory);
+        });
+
+        await batch.commit();
+        savedRows.push(...chunk);
+        setSavedCount(savedRows.length);
+      }
+      console.log(`Imported ${savedRows.length} territories from ${fileName}`);
+    } catch (error) {
+      console.error('Error importing territories:', error);
+      failed = true;
+    }
+
+    if (savedRows.length > 0) {
+      await logAudit({
+        action: 'territories_imported',
+        targetType: 'territory',
+        targetId: null,
+        description: `Uvezeno ${savedRows.length} terena iz ${fileName}`,
+        after: { names: savedRows.map(row => row.name.trim()) },
+      });
+    }
+
+    setSaving(false);
+
+    if (!failed) {
+      onClose();
+    } else if (savedRows.length > 0) {
+      // Saved rows leave the list so a retry doesn't import them twice
+      const savedKeys = new Set(savedRows.map(row => row.key));
+      setRows(prev => prev.filter(row => !savedKeys.has(row.key)));
+      alert(`Spremljeno ${savedRows.length} od ${selectedRows.length} terena. Preostale pokušajte uvesti ponovno.`);
+    } else {
+      alert('Greška pri spremanju terena');
+    }
+  };
+
+  if (step === 'upload') {
+    return (
+      <div className={styles.wizard}>
+        <div className={styles.wizardHeader}>
+          <h3>📥 Uvoz terena</h3>
+          <button className={styles.secondaryButton} onClick={onClose}>✕ Zatvori</button>
+        </div>
+
+        <label className={styles.dropZone}>
+          <input
+            type="file"
+            accept=".kml,.geojson,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <span className={styles.dropZoneIcon}>🗺️</span>
+          <span>Odaberi KML ili GeoJSON datoteku</span>
+        </label>
+
+        {parseError && <p className={styles.error}>{parseError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.wizard}>
+      <div className={styles.wizardHeader}>
+        <div>
+          <h3>📥 Uvoz terena</h3>
+          <p className={styles.wizardSubtitle}>
+            {fileName}: {rows.length} poligona{invalidCount > 0 && `, ${invalidCount} neispravnih`}
+          </p>
+        </div>
+        <div className={styles.wizardActions}>
+          <button className={styles.secondaryButton} onClick={() => setStep('upload')} disabled={saving}>
+            ← Druga datoteka
+          </button>
+          <button className={styles.secondaryButton} onClick={onClose} disabled={saving}>
+            Odustani
+          </button>
+          <button
+            className={styles.primaryButton}
+            onClick={handleSave}
+            disabled={saving || selectedRows.length === 0}>
+            {saving ? `Spremam ${savedCount}/${selectedRows.length}...` : `Uvezi (${selectedRows.length})`}
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.wizardGrid}>
+        <div className={styles.importList}>
+          {rows.map(row => {
+            const rowError = getImportError(row);
+            return (
+              <div
+                key={row.key}
+                className={`${styles.importRow} ${rowError ? styles.importRowInvalid : ''} ${
+                  highlightedKey === row.key ? styles.importRowHighlighted : ''
+                }`}
+                onMouseEnter={() => setHighlightedKey(row.key)}
+                onMouseLeave={() => setHighlightedKey(null)}>
+                <div className={styles.importRowHeader}>
+                  <input
+                    type="checkbox"
+                    checked={row.include}
+                    disabled={!!row.error || saving}
+                    onChange={(e) => updateRow(row.key, { include: e.target.checked })}
+                  />
+                  <input
+                    className={styles.input}
+                    value={row.name}
+                    disabled={!!row.error || saving}
+                    onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                  />
+                  <input
+                    type="color"
+                    className={styles.colorInput}
+                    value={row.color}
+                    disabled={!!row.error || saving}
+                    onChange={(e) => updateRow(row.key, { color: e.target.value })}
+                  />
+                </div>
+
+                <div className={styles.importRowDetails}>
+                  {row.folder && <span className={styles.folderBadge}>📁 {row.folder}</span>}
+                  <label className={styles.flyerInput}>
+                    📄
+                    <input
+                      className={styles.input}
+                      type="number"
+                      min={0}
+                      placeholder="Letaka"
+                      value={row.flyerCount}
+                      disabled={!!row.error || saving}
+                      onChange={(e) => updateRow(row.key, { flyerCount: e.target.value })}
+                    />
+                  </label>
+                </div>
+
+                {rowError && <p className={styles.error}>⛔ {rowError}</p>}
+                {!rowError && duplicates.has(row.key) && (
+                  <p className={styles.warning}>⚠️ {duplicates.get(row.key)}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={styles.previewMap}>
+          <MapContainer
+            center={[43.5081, 16.4402]}
+            zoom={13}
+            style={{ height: '100%', width: '100%', borderRadius: '0.75rem' }}>
+            <FitImportBounds imported={imported} />
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+
+            {rows.filter(row => !row.error).map(row => (
+              <Polygon
+                key={row.key}
+                positions={row.ring.map(([lng, lat]) => [lat, lng] as [number, number])}
+                pathOptions={{
+                  color: row.color,
+                  fillColor: row.color,
+                  fillOpacity: highlightedKey === row.key ? 0.45 : row.include ? 0.2 : 0.05,
+                  weight: highlightedKey === row.key ? 4 : 2,
+                  dashArray: row.include ? undefined : '6 6',
+                }}>
+                <Tooltip sticky>{row.name}</Tooltip>
+              </Polygon>
+            ))}
+          </MapContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TerritoryImportWizard;
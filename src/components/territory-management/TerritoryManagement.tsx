@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { MapContainer, TileLayer, Polygon, Tooltip } from 'react-leaflet';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import type { Territory } from '../../types';
+import { parseTerritoryBoundary } from '../../utils/geometry';
+import TerritoryImportWizard from './TerritoryImportWizard';
+import TerritoryEditor from './TerritoryEditor';
+import 'leaflet/dist/leaflet.css';
+import styles from './TerritoryManagement.module.css';
+
+// Drawing a new territory has its own address next to /territories/:id
+export const NEW_TERRITORY_ID = 'new';
+
+interface TerritoryManagementProps {
+  editingId: string | null;
+  onEditingChange: (territoryId: string | null) => void;
+}
+
+function TerritoryManagement({ editingId, onEditingChange }: TerritoryManagementProps) {
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, 'territories'), (snapshot) => {
+      const territoriesData = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Territory[];
+
+      setTerritories(territoriesData.sort((a, b) =>
+        (a.folder || '').localeCompare(b.folder || '', 'hr') || a.name.localeCompare(b.name, 'hr')
+      ));
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className={styles.loading}>
+        <div className={styles.spinner}></div>
+        <p>Učitavam terene...</p>
+      </div>
+    );
+  }
+
+  if (isImportOpen) {
+    return (
+      <TerritoryImportWizard
+        existingTerritories={territories}
+        onClose={() => setIsImportOpen(false)}
+      />
+    );
+  }
+
+  const editingTerritory = territories.find(t => t.id === editingId) || null;
+
+  if (editingId === NEW_TERRITORY_ID || editingTerritory) {
+    return (
+      <TerritoryEditor
+        key={editingTerritory?.id || NEW_TERRITORY_ID}
+        territory={editingTerritory}
+        onClose={() => onEditingChange(null)}
+      />
+    );
+  }
+
+  const openEditor = (territory: Territory | null) => {
+    onEditingChange(territory?.id || NEW_TERRITORY_ID);
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.toolbar}>
+        <h2>Tereni ({territories.length})</h2>
+        <div className={styles.wizardActions}>
+          <button className={styles.secondaryButton} onClick={() => openEditor(null)}>
+            ✏️ Nacrtaj novi
+          </button>
+          <button className={styles.primaryButton} onClick={() => setIsImportOpen(true)}>
+            📥 Uvoz KML/GeoJSON
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.territoryGrid}>
+        <div className={styles.territoryList}>
+          {territories.length === 0 ? (
+            <div className={styles.emptyState}>
+              <p className={styles.emptyIcon}>🗺️</p>
+              <p className={styles.emptyText}>Nema terena</p>
+            </div>
+          ) : (
+            territories.map(territory => (
+              <div
+                key={territory.id}
+                className={`${styles.territoryCard} ${
+                  highlightedId === territory.id ? styles.territoryCardActive : ''
+                }`}
+                onMouseEnter={() => setHighlightedId(territory.id)}
+                onMouseLeave={() => setHighlightedId(null)}>
+                <span
+                  className={styles.colorSwatch}
+                  style={{ backgroundColor: territory.color || '#10B981' }}
+                />
+                <div className={styles.territoryInfo}>
+                  <span className={styles.territoryName}>{territory.name}</span>
+                  <span className={styles.territoryMeta}>
+                    {territory.folder && `📁 ${territory.folder}`}
+                    {territory.flyerCount !== null && territory.flyerCount !== undefined && ` 📄 ${territory.flyerCount} letaka`}
+                  </span>
+                </div>
+                <button
+                  className={`${styles.secondaryButton} ${styles.editButton}`}
+                  onClick={() => openEditor(territory)}>
+                  ✏️ Uredi
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className={styles.previewMap}>
+          <MapContainer
+            center={[43.5081, 16.4402]}
+            zoom={12}
+            style={{ height: '100%', width: '100%', borderRadius: '0.75rem' }}>
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+
+            {territories.map(territory => {
+              const coords = parseTerritoryBoundary(territory.boundaryGeoJSON);
+              if (coords.length === 0) return null;
+
+              const color = territory.color || '#10B981';
+              return (
+                <Polygon
+                  key={territory.id}
+                  positions={coords}
+                  pathOptions={{
+                    color,
+                    fillColor: color,
+                    fillOpacity: highlightedId === territory.id ? 0.45 : 0.15,
+                    weight: highlightedId === territory.id ? 4 : 2,
+                  }}>
+                  <Tooltip sticky>{territory.name}</Tooltip>
+                </Polygon>
+              );
+            })}
+          </MapContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TerritoryManagement;
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import type { Worker, Territory } from '../../types';
+import {
+  validateWorker,
+  generateUniquePin,
+  type WorkerFormData,
+  type WorkerFormErrors,
+} from '../../utils/workerValidation';
+import styles from './WorkerManagement.module.css';
+
+interface WorkerFormProps {
+  worker: Worker | null;
+  workers: Worker[];
+  territories: Territory[];
+  onSave: (data: WorkerFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+function WorkerForm({ worker, workers, territories, onSave, onCancel }: WorkerFormProps) {
+  const [formData, setFormData] = useState<WorkerFormData>({
+    name: worker?.name || '',
+    pin: worker?.pin || '',
+    active: worker?.active ?? true,
+    assignedTerritories: worker?.assignedTerritories || [],
+  });
+  const [errors, setErrors] = useState<WorkerFormErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const toggleTerritory = (territoryId: string) => {
+    const assigned = formData.assignedTerritories;
+    setFormData({
+      ...formData,
+      assignedTerritories: assigned.includes(territoryId)
+        ? assigned.filter(id => id !== territoryId)
+        : [...assigned, territoryId],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = { ...formData, name: formData.name.trim() };
+    const validationErrors = validateWorker(data, workers, worker?.id || null);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSave(data);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit}>
+      <h3 className={styles.formTitle}>
+        {worker ? `Uredi radnika: ${worker.name}` : 'Novi radnik'}
+      </h3>
+
+      <div className={styles.formGrid}>
+        <div className={styles.formGroup}>
+          <label className={styles.label}>Ime i prezime</label>
+          <input
+            className={styles.input}
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            disabled={saving}
+          />
+          {errors.name && <p className={styles.error}>{errors.name}</p>}
+        </div>
+
+        <div className={styles.formGroup}>
+          <label className={styles.label}>PIN</label>
+          <div className={styles.pinRow}>
+            <input
+              className={styles.input}
+              value={formData.pin}
+              inputMode="numeric"
+              maxLength={6}
+              onChange={(e) => setFormData({ ...formData, pin: e.target.value.replace(/\D/g, '') })}
+              disabled={saving}
+            />
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => setFormData({ ...formData, pin: generateUniquePin(workers) })}
+              disabled={saving}>
+              🎲 Generiraj
+            </button>
+          </div>
+          {errors.pin && <p className={styles.error}>{errors.pin}</p>}
+        </div>
+      </div>
+
+      <label className={styles.checkboxLabel}>
+        <input
+          type="checkbox"
+          checked={formData.active}
+          onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+          disabled={saving}
+        />
+        <span>Aktivan</span>
+      </label>
+
+      {territories.length > 0 && (
+        <div className={styles.formGroup}>
+          <label className={styles.label}>Dodijeljeni tereni</label>
+          <div className={styles.territoryList}>
+            {territories.map(territory => (
+              <label key={territory.id} className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={formData.assignedTerritories.includes(territory.id)}
+                  onChange={() => toggleTerritory(territory.id)}
+                  disabled={saving}
+                />
+                <span>{territory.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className={styles.formActions}>
+        <button type="button" className={styles.secondaryButton} onClick={onCancel} disabled={saving}>
+          Odustani
+        </button>
+        <button type="submit" className={styles.primaryButton} disabled={saving}>
+          {saving ? 'Spremam...' : 'Spremi'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default WorkerForm;
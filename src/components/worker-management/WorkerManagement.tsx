@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { collection, getDocs, onSnapshot, addDoc, updateDoc, doc } from 'firebase/firestore';
+import { db } from '../../config/firebase';
+import { logAudit, diffValues } from '../../utils/auditLog';
+import type { Worker, Territory, Session } from '../../types';
+import { countSessions, fetchLatestSession } from '../../utils/sessionQuery';
+import { generateUniquePin, type WorkerFormData } from '../../utils/workerValidation';
+import WorkerForm from './WorkerForm';
+import styles from './WorkerManagement.module.css';
+
+// PINs are credentials, so the audit log only records that one changed
+const PIN_MASK = '••••';
+
+interface WorkerSessionInfo {
+  count: number;
+  lastSession: Session | null;
+}
+
+function WorkerManagement() {
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingWorker, setEditingWorker] = useState<Worker | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [showInactive, setShowInactive] = useState(true);
+  const [sessionInfo, setSessionInfo] = useState<Map<string, WorkerSessionInfo>>(new Map());
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(collection(db, 'workers'), (snapshot) => {
+      const workersData = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Worker[];
+
+      setWorkers(workersData.sort((a, b) => a.name.localeCompare(b.name, 'hr')));
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const loadTerritories = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, 'territories'));
+        setTerritories(snapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        })) as Territory[]);
+      } catch (error) {
+        console.error('Error loading territories:', error);
+      }
+    };
+
+    loadTerritories();
+  }, []);
+
+  const workerIds = workers.map(w => w.id).join(',');
+
+  useEffect(() => {
+    if (!workerIds) return;
+    let cancelled = false;
+
+    const loadSessionInfo = async () => {
+      try {
+        const entries = await Promise.all(workerIds.split(',').map(async workerId => {
+          const [count, lastSession] = await Promise.all([
+            countSessions({ workerId }, null),
+            fetchLatestSession({ workerId }, null),
+          ]);
+          return [workerId, { count, lastSession }] as const;
+        }));
+        if (!cancelled) setSessionInfo(new Map(entries));
+      } catch (error) {
+        console.error('Error loading worker session info:', error);
+      }
+    };
+
+    loadSessionInfo();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workerIds]);
+
+  const getWorkerSessionInfo = (workerId: string): WorkerSessionInfo =>
+    sessionInfo.get(workerId) || { count: 0, lastSession: null };
+
+  const openCreateForm = () => {
+    setEditingWorker(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (worker: Worker) => {
+    setEditingWorker(worker);
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setEditingWorker(null);
+    setIsFormOpen(false);
+  };
+
+  const handleSave = async (data: WorkerFormData) => {
+    try {
+      if (editingWorker) {
+        await updateDoc(doc(db, 'workers', editingWorker.id), { ...data });
+        console.log(`Worker ${editingWorker.id} updated`);
+
+        const changes = diffValues(
+          { ...editingWorker, pin: PIN_MASK },
+          { ...data, pin: editingWorker.pin === data.pin ? PIN_MASK : `${PIN_MASK} (novi)` }
+        );
+        await logAudit({
+          action: 'worker_updated',
+          targetType: 'worker',
+          targetId: editingWorker.id,
+          description: `Izmjena radnika ${data.name}`,
+          ...changes,
+        });
+      } else {
+        const ref = await addDoc(collection(db, 'workers'), {
+          ...data,
+          activeSessionId: null,
+        });
+        console.log(`Worker ${ref.id} created`);
+
+        await logAudit({
+          action: 'worker_created',
+          targetType: 'worker',
+          targetId: ref.id,
+          description: `Novi radnik ${data.name}`,
+          after: { ...data, pin: PIN_MASK },
+        });
+      }
+      closeForm();
+    } catch (error) {
+      console.error('Error saving worker:', error);
+      alert('Greška pri spremanju radnika');
+    }
+  };
+
+  const handleToggleActive = async (worker: Worker) => {
+    if (worker.active && !confirm(`Deaktivirati radnika ${worker.name}?`)) return;
+
+    try {
+      await updateDoc(doc(db, 'workers', worker.id), { active: !worker.active });
+      await logAudit({
+        action: 'worker_updated',
+        targetType: 'worker',
+        targetId: worker.id,
+        description: `${worker.active ? 'Deaktiviran' : 'Aktiviran'} radnik ${worker.name}`,
+        before: { active: worker.active },
+        after: { active: !worker.active },
+      });
+    } catch (error) {
+      console.error('Error toggling worker status:', error);
+      alert('Greška pri promjeni statusa radnika');
+    }
+  };
+
+  const handleResetPin = async (worker: Worker) => {
+    if (!confirm(`Resetirati PIN za radnika ${worker.name}?`)) return;
+
+    const newPin = generateUniquePin(workers);
+    try {
+      await updateDoc(doc(db, 'workers', worker.id), { pin: newPin });
+      await logAudit({
+        action: 'worker_updated',
+        targetType: 'worker',
+        targetId: worker.id,
+        description: `Resetiran PIN radnika ${worker.name}`,
+        before: { pin: PIN_MASK },
+        after: { pin: `${PIN_MASK} (novi)` },
+      });
+      alert(`Novi PIN za ${worker.name}: ${newPin}`);
+    } catch (error) {
+      console.error('Error resetting PIN:', error);
+      alert('Greška pri resetiranju PIN-a');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={styles.loading}>
+        <div className={styles.spinner}></div>
+        <p>Učitavam radnike...</p>
+      </div>
+    );
+  }
+
+  const visibleWorkers = showInactive ? workers : workers.filter(w => w.active);
+  const territoryNames = new Map(territories.map(t => [t.id, t.name]));
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.toolbar}>
+        <h2>Radnici ({workers.filter(w => w.active).length}/{workers.length} aktivnih)</h2>
+        <div className={styles.toolbarActions}>
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+            />
+            <span>Prikaži neaktivne</span>
+          </label>
+          <button className={styles.primaryButton} onClick={openCreateForm}>
+            ➕ Novi radnik
+          </button>
+        </div>
+      </div>
+
+      {isFormOpen && (
+        <WorkerForm
+          key={editingWorker?.id || 'new'}
+          worker={editingWorker}
+          workers={workers}
+          territories={territories}
+          onSave={handleSave}
+          onCancel={closeForm}
+        />
+      )}
+
+      {visibleWorkers.length === 0 ? (
+        <div className={styles.emptyState}>
+          <p className={styles.emptyIcon}>👷</p>
+          <p className={styles.emptyText}>Nema radnika</p>
+        </div>
+      ) : (
+        <div className={styles.workerList}>
+          {visibleWorkers.map(worker => {
+            const { count, lastSession } = getWorkerSessionInfo(worker.id);
+
+            return (
+              <div
+                key={worker.id}
+                className={`${styles.workerCard} ${!worker.active ? styles.workerCardInactive : ''}`}>
+                <div className={styles.workerHeader}>
+                  <span className={styles.workerName}>{worker.name}</span>
+                  <span className={`${styles.statusBadge} ${
+                    worker.active ? styles.statusActive : styles.statusInactive
+                  }`}>
+                    {worker.active ? '🟢 Aktivan' : '⚪ Neaktivan'}
+                  </span>
+                </div>
+
+                <div className={styles.workerInfo}>
+                  <span>🔑 PIN: {worker.pin}</span>
+                  <span>📊 Sesija: {count}</span>
+                  <span>
+                    🕒 Zadnja sesija: {lastSession?.startTime?.toDate?.()?.toLocaleString('hr-HR') || 'nema'}
+                  </span>
+                  {worker.assignedTerritories?.length > 0 && (
+                    <span className={styles.territoryBadge}>
+                      🗺️ {worker.assignedTerritories.map(id => territoryNames.get(id) || id).join(', ')}
+                    </span>
+                  )}
+                </div>
+
+                <div className={styles.workerActions}>
+                  <button className={styles.secondaryButton} onClick={() => openEditForm(worker)}>
+                    ✏️ Uredi
+                  </button>
+                  <button className={styles.secondaryButton} onClick={() => handleResetPin(worker)}>
+                    🔑 Reset PIN
+                  </button>
+                  <button className={styles.secondaryButton} onClick={() => handleToggleActive(worker)}>
+                    {worker.active ? '⏸️ Deaktiviraj' : '▶️ Aktiviraj'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkerManagement;
@@ -1,23 +1,65 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { type User, onAuthStateChanged, signInWithEmailAndPassword, signOut } from 'firebase/auth';
-import { auth } from '../config/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import type { UserProfile, UserRole } from '../types';
+import { hasPermission, isTerritoryRestricted, isUserRole, type Permission } from '../utils/permissions';
 
 interface AuthContextType {
   user: User | null;
+  profile: UserProfile | null;
+  role: UserRole | null;
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  canAccessTerritory: (territoryId: string | null) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Custom claims win over the users document, so a role can be enforced from
+// the backend without trusting a client-writable document
+async function loadUserProfile(user: User): Promise<UserProfile | null> {
+  const tokenResult = await user.getIdTokenResult();
+  const userDoc = await getDoc(doc(db, 'users', user.uid));
+  const data = userDoc.exists() ? userDoc.data() : {};
+
+  const role = isUserRole(tokenResult.claims.role) ? tokenResult.claims.role : data.role;
+  if (!isUserRole(role)) return null;
+
+  const territoryIds = Array.isArray(tokenResult.claims.territoryIds)
+    ? tokenResult.claims.territoryIds
+    : data.territoryIds;
+
+  return {
+    uid: user.uid,
+    email: user.email,
+    role,
+    territoryIds: Array.isArray(territoryIds) ? territoryIds : [],
+  };
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      setLoading(true);
+
+      let userProfile: UserProfile | null = null;
+      if (user) {
+        try {
+          userProfile = await loadUserProfile(user);
+        } catch (error) {
+          console.error('Error loading user profile:', error);
+        }
+      }
+
       setUser(user);
+      setProfile(userProfile);
       setLoading(false);
     });
 
@@ -32,8 +74,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await signOut(auth);
   };
 
+  const role = profile?.role || null;
+
+  const can = (permission: Permission) => hasPermission(role, permission);
+
+  // Stable between profile changes, so views can derive memoized state from it
+  const canAccessTerritory = useCallback(
+    (territoryId: string | null) =>
+      !isTerritoryRestricted(role) || (territoryId !== null && !!profile?.territoryIds.includes(territoryId)),
+    [role, profile]
+  );
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout }}>
+    <AuthContext.Provider value={{ user, profile, role, loading, login, logout, can, canAccessTerritory }}>
       {children}
     </AuthContext.Provider>
   );
@@ -43,4 +96,4 @@ export function useAuth() {
   const context = useContext(AuthContext);
   if (!context) throw new Error('useAuth must be used within AuthProvider');
   return context;
-}
\ No newline at end of file
+}
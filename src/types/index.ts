@@ -18,6 +18,8 @@ export interface Territory {
   boundaryGeoJSON: string;
 }
 
+export type SessionStatus = 'active' | 'completed' | 'auto_completed';
+
 export interface Session {
   id: string;
   workerId: string;
@@ -26,11 +28,39 @@ export interface Session {
   flyerCount: number | null;
   startTime: any;
   endTime: any;
-  status: 'active' | 'completed';
+  status: SessionStatus;
   totalDistance: number;
   averageSpeed: number;
   pointsCount: number;
   lastLocationUpdate?: any;
+  geofenceViolationCount?: number;
+  geofenceOutsideMs?: number;
+  geofenceTerritoryId?: string; // territory the geofence summary was computed for
+  routeDistance?: number; // meters, after the default GPS filter
+  routeStoppedTime?: number; // seconds
+  routeStatsPointsCount?: number; // pointsCount the route stats were computed for
+  autoClosedReason?: string;
+  manualEndReason?: string;
+  reopenedAt?: Timestamp;
+  notes?: SessionNote[];
+  editHistory?: SessionEdit[];
+}
+
+export interface SessionNote {
+  text: string;
+  author: string | null;
+  createdAt: Timestamp;
+}
+
+export type SessionEditAction = 'ended' | 'reopened' | 'corrected' | 'note_added';
+
+export interface SessionEdit {
+  action: SessionEditAction;
+  by: string | null;
+  at: Timestamp;
+  reason?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
 }
 
 export interface LocationPoint {
@@ -46,7 +76,40 @@ export interface LocationPoint {
 export interface FilterState {
   workerId: string;
   territoryId: string;
-  status: 'all' | 'active' | 'completed';
+  status: 'all' | SessionStatus;
   dateFrom: string;
   dateTo: string;
-}
\ No newline at end of file
+}
+
+export type UserRole = 'admin' | 'dispatcher' | 'viewer';
+
+export interface UserProfile {
+  uid: string;
+  email: string | null;
+  role: UserRole;
+  territoryIds: string[]; // viewers only see sessions on these territories
+}
+
+export type AuditAction =
+  | 'session_auto_closed'
+  | 'session_updated'
+  | 'territory_created'
+  | 'territory_updated'
+  | 'territories_imported'
+  | 'worker_created'
+  | 'worker_updated'
+  | 'data_exported';
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string | null;
+  actorEmail: string | null;
+  automatic: boolean; // performed by the portal itself, e.g. auto-close
+  targetType: 'session' | 'territory' | 'worker' | 'export';
+  targetId: string | null;
+  description: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  timestamp: Timestamp | null; // null until the server timestamp resolves
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { Session } from '../types';
+import { computeSessionMetrics, needsRouteStats } from './analytics';
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-1',
+    workerId: 'worker-1',
+    workerName: 'Ana',
+    status: 'completed',
+    pointsCount: 120,
+    flyerCount: 300,
+    startTime: { toDate: () => new Date('2026-03-10T09:00:00') },
+    endTime: { toDate: () => new Date('2026-03-10T11:00:00') },
+    ...overrides,
+  } as Session;
+}
+
+describe('needsRouteStats', () => {
+  it('computes missing route stats once the session ended', () => {
+    expect(needsRouteStats(createSession())).toBe(true);
+    expect(needsRouteStats(createSession({ status: 'active' }))).toBe(false);
+  });
+
+  it('keeps stats computed for the current points', () => {
+    expect(needsRouteStats(createSession({ routeStatsPointsCount: 120 }))).toBe(false);
+    expect(needsRouteStats(createSession({ routeStatsPointsCount: 100 }))).toBe(true);
+  });
+});
+
+describe('computeSessionMetrics', () => {
+  it('builds the metrics from the stored session fields', () => {
+    const metrics = computeSessionMetrics(createSession(), {
+      routeDistance: 5000,
+      routeStoppedTime: 1800,
+      routeStatsPointsCount: 120,
+    });
+
+    expect(metrics).toMatchObject({ date: '2026-03-10', distance: 5000, duration: 7200, movingTime: 5400, flyers: 300 });
+  });
+});
@@ -0,0 +1,166 @@
+import type { LocationPoint, Session } from '../types';
+import { calculateSessionStats } from './statistics';
+import { detectStops } from './stops';
+import { cleanLocations, DEFAULT_GPS_FILTER_CONFIG } from './gpsFilter';
+
+export type AnalyticsPeriod = '7d' | '30d' | 'month' | 'lastMonth';
+
+export interface SessionMetrics {
+  sessionId: string;
+  workerId: string;
+  workerName: string;
+  date: string; // YYYY-MM-DD, local time
+  distance: number; // meters
+  duration: number; // seconds
+  movingTime: number; // seconds
+  flyers: number;
+}
+
+export interface MetricTotals {
+  sessions: number;
+  distance: number;
+  duration: number;
+  movingTime: number;
+  flyers: number;
+}
+
+export interface WorkerAnalytics extends MetricTotals {
+  workerId: string;
+  workerName: string;
+}
+
+export interface DayAnalytics extends MetricTotals {
+  date: string;
+}
+
+export const ANALYTICS_PERIOD_LABELS: Record<AnalyticsPeriod, string> = {
+  '7d': 'Zadnjih 7 dana',
+  '30d': 'Zadnjih 30 dana',
+  month: 'Ovaj mjesec',
+  lastMonth: 'Prošli mjesec',
+};
+
+const EMPTY_TOTALS: MetricTotals = { sessions: 0, distance: 0, duration: 0, movingTime: 0, flyers: 0 };
+
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function getPeriodRange(period: AnalyticsPeriod, now: Date): { dateFrom: string; dateTo: string } {
+  const from = new Date(now);
+  const to = new Date(now);
+
+  if (period === '7d' || period === '30d') {
+    from.setDate(from.getDate() - (period === '7d' ? 6 : 29));
+  } else if (period === 'month') {
+    from.setDate(1);
+  } else {
+    from.setMonth(from.getMonth() - 1, 1);
+    to.setDate(0); // last day of the previous month
+  }
+
+  return { dateFrom: toDateKey(from), dateTo: toDateKey(to) };
+}
+
+export interface RouteStatsSummary {
+  routeDistance: number;
+  routeStoppedTime: number;
+  routeStatsPointsCount: number;
+}
+
+// Uses the same stop detection as the session view, so moving time and
+// walking speed match what a dispatcher sees when opening the session. Stored
+// on the session like the geofence summary, so it uses the default GPS filter
+export function computeRouteStatsSummary(session: Session, points: LocationPoint[]): RouteStatsSummary {
+  const locations = cleanLocations(points, DEFAULT_GPS_FILTER_CONFIG).locations;
+  const start: Date = session.startTime?.toDate?.() || new Date();
+  const end: Date | null = session.endTime?.toDate?.() || null;
+  const stats = calculateSessionStats(locations, start, end, detectStops(locations));
+
+  return {
+    routeDistance: stats.totalDistance,
+    routeStoppedTime: stats.stoppedTime,
+    routeStatsPointsCount: session.pointsCount || 0,
+  };
+}
+
+// Missing, or computed before points were added or edited
+export function needsRouteStats(session: Session): boolean {
+  return session.status !== 'active' && session.routeStatsPointsCount !== (session.pointsCount || 0);
+}
+
+// Reads only session fields, so a period never downloads points
+export function computeSessionMetrics(session: Session, summary: RouteStatsSummary): SessionMetrics {
+  const start: Date = session.startTime?.toDate?.() || new Date();
+  const end: Date = session.endTime?.toDate?.() || start;
+  const duration = Math.max(0, Math.floor((end.getTime() - start.getTime()) / 1000));
+
+  return {
+    sessionId: session.id,
+    workerId: session.workerId,
+    workerName: session.workerName,
+    date: toDateKey(start),
+    distance: summary.routeDistance,
+    duration,
+    movingTime: Math.max(0, duration - summary.routeStoppedTime),
+    flyers: session.flyerCount || 0,
+  };
+}
+
+function addMetrics(totals: MetricTotals, metrics: SessionMetrics): void {
+  totals.sessions++;
+  totals.distance += metrics.distance;
+  totals.duration += metrics.duration;
+  totals.movingTime += metrics.movingTime;
+  totals.flyers += metrics.flyers;
+}
+
+export function sumMetrics(metrics: SessionMetrics[]): MetricTotals {
+  const totals = { ...EMPTY_TOTALS };
+  metrics.forEach(m => addMetrics(totals, m));
+  return totals;
+}
+
+export function aggregateByWorker(metrics: SessionMetrics[]): WorkerAnalytics[] {
+  const workers = new Map<string, WorkerAnalytics>();
+
+  metrics.forEach(m => {
+    const worker = workers.get(m.workerId) || { ...EMPTY_TOTALS, workerId: m.workerId, workerName: m.workerName };
+    addMetrics(worker, m);
+    workers.set(m.workerId, worker);
+  });
+
+  return Array.from(workers.values());
+}
+
+// Every day of the period gets an entry, so quiet days show up as gaps in the charts
+export function aggregateByDay(metrics: SessionMetrics[], dateFrom: string, dateTo: string): DayAnalytics[] {
+  const days = new Map<string, DayAnalytics>();
+  const cursor = new Date(`${dateFrom}T00:00:00`);
+  const last = new Date(`${dateTo}T00:00:00`);
+
+  while (cursor <= last) {
+    const date = toDateKey(cursor);
+    days.set(date, { ...EMPTY_TOTALS, date });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  metrics.forEach(m => {
+    const day = days.get(m.date);
+    if (day) addMetrics(day, m);
+  });
+
+  return Array.from(days.values());
+}
+
+export function getWalkingSpeedKmh(totals: MetricTotals): number {
+  return totals.movingTime > 0 ? (totals.distance / totals.movingTime) * 3.6 : 0;
+}
+
+export function getFlyersPerHour(totals: MetricTotals): number {
+  return totals.duration > 0 ? totals.flyers / (totals.duration / 3600) : 0;
+}
+
+export function getFlyersPerKm(totals: MetricTotals): number {
+  return totals.distance > 0 ? totals.flyers / (totals.distance / 1000) : 0;
+}
@@ -0,0 +1,173 @@
+import {
+  collection,
+  addDoc,
+  serverTimestamp,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getDocs,
+  type Query,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type DocumentData,
+} from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import type { AuditAction, AuditEntry } from '../types';
+import { escapeCsv } from './sessionExport';
+import { downloadBlob } from './download';
+import { getDayEnd, getDayStart } from './sessionQuery';
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export interface AuditLogFilters {
+  actorEmail: string;
+  action: AuditAction | '';
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  session_auto_closed: 'Automatsko zatvaranje sesije',
+  session_updated: 'Izmjena sesije',
+  territory_created: 'Novi teren',
+  territory_updated: 'Izmjena terena',
+  territories_imported: 'Uvoz terena',
+  worker_created: 'Novi radnik',
+  worker_updated: 'Izmjena radnika',
+  data_exported: 'Izvoz podataka',
+};
+
+type AuditInput = Pick<AuditEntry, 'action' | 'targetType' | 'targetId' | 'description'> & {
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  automatic?: boolean;
+};
+
+// Firestore rejects undefined values, and Dates read back more usefully as ISO strings
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function toAuditRecord(values: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (!values) return null;
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, toAuditValue(value)]));
+}
+
+// Keeps only the fields that actually changed
+export function diffValues(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changedKeys = Object.keys(after).filter(key =>
+    JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+
+  return {
+    before: Object.fromEntries(changedKeys.map(key => [key, before[key]])),
+    after: Object.fromEntries(changedKeys.map(key => [key, after[key]])),
+  };
+}
+
+// Audit writes never block or fail the action they describe
+export async function logAudit(input: AuditInput): Promise<void> {
+  const user = auth.currentUser;
+
+  try {
+    await addDoc(collection(db, 'auditLog'), {
+      action: input.action,
+      actorId: user?.uid || null,
+      actorEmail: user?.email || null,
+      automatic: input.automatic || false,
+      targetType: input.targetType,
+      targetId: input.targetId,
+      description: input.description,
+      before: toAuditRecord(input.before),
+      after: toAuditRecord(input.after),
+      timestamp: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
+
+export function toAuditEntry(doc: QueryDocumentSnapshot<DocumentData>): AuditEntry {
+  return { id: doc.id, ...doc.data() } as AuditEntry;
+}
+
+// Every combination has a composite index in firestore.indexes.json. Entries
+// whose server timestamp hasn't resolved yet only show up without a date filter.
+export function buildAuditLogQuery(filters: AuditLogFilters, ...extra: QueryConstraint[]): Query<DocumentData> {
+  return query(
+    collection(db, 'auditLog'),
+    ...(filters.actorEmail ? [where('actorEmail', '==', filters.actorEmail)] : []),
+    ...(filters.action ? [where('action', '==', filters.action)] : []),
+    ...(filters.dateFrom ? [where('timestamp', '>=', getDayStart(filters.dateFrom))] : []),
+    ...(filters.dateTo ? [where('timestamp', '<=', getDayEnd(filters.dateTo))] : []),
+    orderBy('timestamp', 'desc'),
+    ...extra
+  );
+}
+
+export async function fetchAuditLogPage(
+  filters: AuditLogFilters,
+  after: QueryDocumentSnapshot<DocumentData>
+): Promise<AuditLogPage> {
+  const snapshot = await getDocs(buildAuditLogQuery(filters, startAfter(after), limit(AUDIT_PAGE_SIZE)));
+
+  return {
+    entries: snapshot.docs.map(toAuditEntry),
+    lastDoc: snapshot.docs[snapshot.docs.length - 1] || null,
+    hasMore: snapshot.docs.length === AUDIT_PAGE_SIZE,
+  };
+}
+
+export async function fetchAllAuditEntries(filters: AuditLogFilters): Promise<AuditEntry[]> {
+  const snapshot = await getDocs(buildAuditLogQuery(filters));
+  return snapshot.docs.map(toAuditEntry);
+}
+
+export function formatAuditChanges(entry: AuditEntry): string {
+  const keys = Array.from(new Set([
+    ...Object.keys(entry.before || {}),
+    ...Object.keys(entry.after || {}),
+  ]));
+
+  return keys
+    .map(key => {
+      const before = entry.before?.[key];
+      const after = entry.after?.[key];
+      if (entry.before && entry.after) {
+        return `${key}: ${JSON.stringify(before ?? null)} → ${JSON.stringify(after ?? null)}`;
+      }
+      return `${key}: ${JSON.stringify(after ?? before ?? null)}`;
+    })
+    .join('; ');
+}
+
+export function exportAuditLogToCSV(entries: AuditEntry[]): void {
+  const lines = [
+    ['Vrijeme', 'Korisnik', 'Radnja', 'Objekt', 'Opis', 'Promjene'].join(';'),
+    ...entries.map(entry => [
+      entry.timestamp?.toDate?.()?.toLocaleString('hr-HR') || '',
+      entry.automatic ? `Sustav (${entry.actorEmail || '-'})` : entry.actorEmail || '',
+      AUDIT_ACTION_LABELS[entry.action] || entry.action,
+      entry.targetId ? `${entry.targetType}/${entry.targetId}` : entry.targetType,
+      entry.description,
+      formatAuditChanges(entry),
+    ].map(escapeCsv).join(';')),
+  ];
+
+  const date = new Date().toLocaleDateString('hr-HR').replace(/\.\s*/g, '-').replace(/-$/, '');
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `prizma-revizija-${date}.csv`);
+}
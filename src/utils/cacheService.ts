@@ -1,69 +1,204 @@
 import type { LocationPoint } from '../types';
 
-const CACHE_PREFIX = 'prizma_cache_';
-const CACHE_VERSION = 'v1';
+const DB_NAME = 'prizma_cache';
+const SESSIONS_STORE = 'sessions';
+const POINTS_STORE = 'points';
+const LEGACY_CACHE_PREFIX = 'prizma_cache_';
+const BUDGET_STORAGE_KEY = 'prizma_point_cache_budget';
 const MAX_CACHE_AGE_MS = 24 * 60 * 60 * 1000; // 24 sata
 
-interface CachedSession {
+export const DEFAULT_CACHE_BUDGET_BYTES = 50 * 1024 * 1024;
+export const CACHE_BUDGET_OPTIONS = [10, 25, 50, 100].map(mb => mb * 1024 * 1024);
+
+interface CachedSessionMeta {
   sessionId: string;
-  points: LocationPoint[];
   lastTimestamp: number;
+  pointCount: number;
+  sizeBytes: number;
   cachedAt: number;
-  version: string;
+  lastAccessed: number;
+  // Set for completed sessions; they never change, so they don't expire and
+  // stay valid as long as the session's pointsCount matches
+  completedPointsCount?: number;
+}
+
+interface CachedPoint {
+  sessionId: string;
+  point: LocationPoint;
+}
+
+export interface CacheStats {
+  totalSessions: number;
+  totalPoints: number;
+  totalSize: string;
+  totalBytes: number;
+  budgetBytes: number;
+}
+
+// Index i upgrades the schema from version i to i + 1. Never edit a shipped
+// migration, append a new one instead.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => {
+    const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'sessionId' });
+    sessions.createIndex('lastAccessed', 'lastAccessed');
+    const points = db.createObjectStore(POINTS_STORE, { autoIncrement: true });
+    points.createIndex('sessionId', 'sessionId');
+  },
+  // Moves the old localStorage JSON caches into IndexedDB
+  (_db, transaction) => {
+    const sessions = transaction.objectStore(SESSIONS_STORE);
+    const points = transaction.objectStore(POINTS_STORE);
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(LEGACY_CACHE_PREFIX))
+      .forEach(key => {
+        try {
+          const legacy = JSON.parse(localStorage.getItem(key) || 'null');
+          if (legacy?.sessionId && Array.isArray(legacy.points)) {
+            legacy.points.forEach((point: LocationPoint) => points.add({ sessionId: legacy.sessionId, point }));
+            sessions.put({
+              sessionId: legacy.sessionId,
+              lastTimestamp: legacy.lastTimestamp,
+              pointCount: legacy.points.length,
+              sizeBytes: JSON.stringify(legacy.points).length,
+              cachedAt: legacy.cachedAt,
+              lastAccessed: legacy.cachedAt,
+            } satisfies CachedSessionMeta);
+          }
+        } catch (e) {
+          console.error(`❌ Error migrating legacy cache ${key}:`, e);
+        }
+        localStorage.removeItem(key);
+      });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+// Sessions whose points are still arriving; the budget never evicts them
+const streamingSessionIds = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction;
+        if (!transaction) return;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          console.log(`🔄 Migrating cache schema to v${version + 1}`);
+          MIGRATIONS[version](request.result, transaction);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function isExpired(meta: CachedSessionMeta, now: number): boolean {
+  return meta.completedPointsCount === undefined && now - meta.cachedAt > MAX_CACHE_AGE_MS;
+}
+
+function estimateSize(points: LocationPoint[]): number {
+  return points.reduce((sum, point) => sum + JSON.stringify(point).length, 0);
+}
+
+function getLastTimestamp(points: LocationPoint[], fallback: number): number {
+  return points.length > 0 ? (points[points.length - 1].timestampMs || Date.now()) : fallback;
+}
+
+async function deleteSessionPoints(transaction: IDBTransaction, sessionId: string): Promise<void> {
+  const index = transaction.objectStore(POINTS_STORE).index('sessionId');
+  const keys = await requestResult(index.getAllKeys(IDBKeyRange.only(sessionId)));
+  const points = transaction.objectStore(POINTS_STORE);
+  keys.forEach(key => points.delete(key));
 }
 
 export const cacheService = {
-  saveSessionPoints(sessionId: string, points: LocationPoint[]): void {
+  async saveSessionPoints(sessionId: string, points: LocationPoint[], completedPointsCount?: number): Promise<void> {
     try {
-      const lastTimestamp = points.length > 0 
-        ? (points[points.length - 1].timestampMs || Date.now())
-        : Date.now();
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, POINTS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
 
-      const cache: CachedSession = {
-        sessionId,
-        points,
-        lastTimestamp,
-        cachedAt: Date.now(),
-        version: CACHE_VERSION,
-      };
+      await deleteSessionPoints(transaction, sessionId);
+      const pointsStore = transaction.objectStore(POINTS_STORE);
+      points.forEach(point => pointsStore.add({ sessionId, point } satisfies CachedPoint));
 
-      localStorage.setItem(
-        `${CACHE_PREFIX}${sessionId}`,
-        JSON.stringify(cache)
-      );
+      const now = Date.now();
+      transaction.objectStore(SESSIONS_STORE).put({
+        sessionId,
+        lastTimestamp: getLastTimestamp(points, now),
+        pointCount: points.length,
+        sizeBytes: estimateSize(points),
+        cachedAt: now,
+        lastAccessed: now,
+        completedPointsCount,
+      } satisfies CachedSessionMeta);
 
+      await done;
       console.log(`💾 Cached ${points.length} points for session ${sessionId}`);
+      await this.enforceBudget(sessionId);
     } catch (error) {
       console.error('❌ Error saving to cache:', error);
-      this.clearOldCaches();
     }
   },
 
-  loadSessionPoints(sessionId: string): { points: LocationPoint[]; lastTimestamp: number } | null {
+  async loadSessionPoints(sessionId: string): Promise<{ points: LocationPoint[]; lastTimestamp: number } | null> {
     try {
-      const cached = localStorage.getItem(`${CACHE_PREFIX}${sessionId}`);
-      if (!cached) return null;
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, POINTS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      const sessionsStore = transaction.objectStore(SESSIONS_STORE);
 
-      const data: CachedSession = JSON.parse(cached);
-
-      if (data.version !== CACHE_VERSION) {
-        console.log(`🔄 Cache version mismatch for ${sessionId}, ignoring`);
-        this.clearSessionCache(sessionId);
+      const meta: CachedSessionMeta | undefined = await requestResult(sessionsStore.get(sessionId));
+      if (!meta) {
+        await done;
         return null;
       }
 
-      const age = Date.now() - data.cachedAt;
-      if (age > MAX_CACHE_AGE_MS) {
+      if (isExpired(meta, Date.now())) {
         console.log(`⏰ Cache expired for ${sessionId}`);
-        this.clearSessionCache(sessionId);
+        await deleteSessionPoints(transaction, sessionId);
+        sessionsStore.delete(sessionId);
+        await done;
         return null;
       }
 
-      console.log(`✅ Loaded ${data.points.length} cached points for session ${sessionId}`);
-      
+      const cachedPoints: CachedPoint[] = await requestResult(
+        transaction.objectStore(POINTS_STORE).index('sessionId').getAll(IDBKeyRange.only(sessionId))
+      );
+      sessionsStore.put({ ...meta, lastAccessed: Date.now() });
+      await done;
+
+      console.log(`✅ Loaded ${cachedPoints.length} cached points for session ${sessionId}`);
+
       return {
-        points: data.points,
-        lastTimestamp: data.lastTimestamp,
+        points: cachedPoints.map(cached => cached.point),
+        lastTimestamp: meta.lastTimestamp,
       };
     } catch (error) {
       console.error('❌ Error loading from cache:', error);
@@ -71,104 +206,175 @@ export const cacheService = {
     }
   },
 
-  appendPoints(sessionId: string, newPoints: LocationPoint[]): void {
-    const cached = this.loadSessionPoints(sessionId);
-    if (!cached) {
-      this.saveSessionPoints(sessionId, newPoints);
-      return;
+  // Only the new points are written, the cached ones are never re-serialized.
+  // A missing entry is left missing: the new points alone aren't the whole session.
+  async appendPoints(sessionId: string, newPoints: LocationPoint[]): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, POINTS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      const sessionsStore = transaction.objectStore(SESSIONS_STORE);
+
+      const meta: CachedSessionMeta | undefined = await requestResult(sessionsStore.get(sessionId));
+      if (!meta) {
+        await done;
+        return;
+      }
+
+      const now = Date.now();
+      const pointsStore = transaction.objectStore(POINTS_STORE);
+      newPoints.forEach(point => pointsStore.add({ sessionId, point } satisfies CachedPoint));
+
+      sessionsStore.put({
+        ...meta,
+        lastTimestamp: getLastTimestamp(newPoints, meta.lastTimestamp),
+        pointCount: meta.pointCount + newPoints.length,
+        sizeBytes: meta.sizeBytes + estimateSize(newPoints),
+        lastAccessed: now,
+      } satisfies CachedSessionMeta);
+
+      await done;
+      await this.enforceBudget(sessionId);
+    } catch (error) {
+      console.error('❌ Error appending to cache:', error);
+    }
+  },
+
+  startStreaming(sessionId: string): void {
+    streamingSessionIds.add(sessionId);
+  },
+
+  stopStreaming(sessionId: string): void {
+    streamingSessionIds.delete(sessionId);
+  },
+
+  async hasCompletedSession(sessionId: string, pointsCount: number): Promise<boolean> {
+    try {
+      const db = await openDatabase();
+      const meta: CachedSessionMeta | undefined = await requestResult(
+        db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).get(sessionId)
+      );
+      return meta?.completedPointsCount === pointsCount;
+    } catch (error) {
+      console.error('❌ Error reading cache:', error);
+      return false;
     }
+  },
 
-    const allPoints = [...cached.points, ...newPoints];
-    this.saveSessionPoints(sessionId, allPoints);
+  async loadCompletedSession(sessionId: string, pointsCount: number): Promise<LocationPoint[] | null> {
+    if (!(await this.hasCompletedSession(sessionId, pointsCount))) return null;
+    const cached = await this.loadSessionPoints(sessionId);
+    return cached?.points || null;
   },
 
-  clearSessionCache(sessionId: string): void {
+  async clearSessionCache(sessionId: string): Promise<void> {
     try {
-      localStorage.removeItem(`${CACHE_PREFIX}${sessionId}`);
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, POINTS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      await deleteSessionPoints(transaction, sessionId);
+      transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+      await done;
       console.log(`🗑️ Cleared cache for session ${sessionId}`);
     } catch (error) {
       console.error('❌ Error clearing cache:', error);
     }
   },
 
-  clearOldCaches(): void {
+  async clearOldCaches(): Promise<void> {
     try {
-      const keys = Object.keys(localStorage);
+      const db = await openDatabase();
+      const metas: CachedSessionMeta[] = await requestResult(
+        db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+      );
       const now = Date.now();
-      let cleared = 0;
-
-      keys.forEach(key => {
-        if (!key.startsWith(CACHE_PREFIX)) return;
-
-        try {
-          const cached = localStorage.getItem(key);
-          if (!cached) return;
-
-          const data: CachedSession = JSON.parse(cached);
-          const age = now - data.cachedAt;
+      const expired = metas.filter(meta => isExpired(meta, now));
 
-          if (age > MAX_CACHE_AGE_MS) {
-            localStorage.removeItem(key);
-            cleared++;
-          }
-        } catch (e) {
-          localStorage.removeItem(key);
-          cleared++;
-        }
-      });
+      for (const meta of expired) {
+        await this.clearSessionCache(meta.sessionId);
+      }
 
-      if (cleared > 0) {
-        console.log(`🗑️ Cleared ${cleared} old caches`);
+      if (expired.length > 0) {
+        console.log(`🗑️ Cleared ${expired.length} old caches`);
       }
     } catch (error) {
       console.error('❌ Error clearing old caches:', error);
     }
   },
 
-  clearAllCaches(): void {
+  async clearAllCaches(): Promise<void> {
     try {
-      const keys = Object.keys(localStorage);
-      keys.forEach(key => {
-        if (key.startsWith(CACHE_PREFIX)) {
-          localStorage.removeItem(key);
-        }
-      });
+      const db = await openDatabase();
+      const transaction = db.transaction([SESSIONS_STORE, POINTS_STORE], 'readwrite');
+      const done = transactionDone(transaction);
+      transaction.objectStore(SESSIONS_STORE).clear();
+      transaction.objectStore(POINTS_STORE).clear();
+      await done;
       console.log('🗑️ Cleared all caches');
     } catch (error) {
       console.error('❌ Error clearing all caches:', error);
     }
   },
 
-  getCacheStats(): { totalSessions: number; totalPoints: number; totalSize: string } {
+  getBudget(): number {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : DEFAULT_CACHE_BUDGET_BYTES;
+  },
+
+  async setBudget(bytes: number): Promise<void> {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(bytes));
+    await this.enforceBudget();
+  },
+
+  // Evicts least recently used sessions until the cache fits the budget; the
+  // session just written is evicted last and streaming sessions never are
+  async enforceBudget(protectedSessionId?: string): Promise<void> {
     try {
-      const keys = Object.keys(localStorage);
-      let totalSessions = 0;
-      let totalPoints = 0;
-      let totalSize = 0;
+      const db = await openDatabase();
+      const metas: CachedSessionMeta[] = await requestResult(
+        db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index('lastAccessed').getAll()
+      );
+      const budget = this.getBudget();
+      let totalBytes = metas.reduce((sum, meta) => sum + meta.sizeBytes, 0);
+      if (totalBytes <= budget) return;
 
-      keys.forEach(key => {
-        if (!key.startsWith(CACHE_PREFIX)) return;
+      const evictable = metas.filter(meta => !streamingSessionIds.has(meta.sessionId));
+      const evictionOrder = [
+        ...evictable.filter(meta => meta.sessionId !== protectedSessionId),
+        ...evictable.filter(meta => meta.sessionId === protectedSessionId),
+      ];
 
-        try {
-          const cached = localStorage.getItem(key);
-          if (!cached) return;
+      for (const meta of evictionOrder) {
+        if (totalBytes <= budget) break;
+        console.log(`🗑️ Evicting cache for session ${meta.sessionId} (over budget)`);
+        await this.clearSessionCache(meta.sessionId);
+        totalBytes -= meta.sizeBytes;
+      }
+    } catch (error) {
+      console.error('❌ Error enforcing cache budget:', error);
+    }
+  },
 
-          const data: CachedSession = JSON.parse(cached);
-          totalSessions++;
-          totalPoints += data.points.length;
-          totalSize += cached.length;
-        } catch (e) {
-        }
-      });
+  async getCacheStats(): Promise<CacheStats> {
+    const budgetBytes = this.getBudget();
+
+    try {
+      const db = await openDatabase();
+      const metas: CachedSessionMeta[] = await requestResult(
+        db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+      );
+      const totalBytes = metas.reduce((sum, meta) => sum + meta.sizeBytes, 0);
 
       return {
-        totalSessions,
-        totalPoints,
-        totalSize: `${(totalSize / 1024).toFixed(2)} KB`,
+        totalSessions: metas.length,
+        totalPoints: metas.reduce((sum, meta) => sum + meta.pointCount, 0),
+        totalSize: `${(totalBytes / 1024).toFixed(2)} KB`,
+        totalBytes,
+        budgetBytes,
       };
     } catch (error) {
       console.error('❌ Error getting cache stats:', error);
-      return { totalSessions: 0, totalPoints: 0, totalSize: '0 KB' };
+      return { totalSessions: 0, totalPoints: 0, totalSize: '0 KB', totalBytes: 0, budgetBytes };
     }
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,138 @@
+import type { LocationPoint } from '../types';
+import {
+  createLocalProjection,
+  pointInPolygon,
+  distanceToSegment,
+  openRing,
+  type LatLngTuple,
+  type ProjectedPoint,
+} from './geometry';
+
+export const DEFAULT_COVERAGE_BUFFER_M = 25;
+export const COVERAGE_BUFFER_OPTIONS = [10, 25, 50];
+
+const MAX_GRID_CELLS = 40000;
+const MIN_CELL_SIZE_M = 2;
+
+export interface CoverageResult {
+  coveragePercent: number;
+  coveredArea: number; // m²
+  totalArea: number; // m²
+  bufferMeters: number;
+  // Uncovered parts of the territory as [southWest, northEast] rectangles
+  uncoveredRects: [LatLngTuple, LatLngTuple][];
+}
+
+type Segment = [ProjectedPoint, ProjectedPoint];
+
+function buildSegmentIndex(segments: Segment[], bucketSize: number, buffer: number) {
+  const buckets = new Map<string, Segment[]>();
+
+  segments.forEach(segment => {
+    const [a, b] = segment;
+    const minX = Math.floor((Math.min(a.x, b.x) - buffer) / bucketSize);
+    const maxX = Math.floor((Math.max(a.x, b.x) + buffer) / bucketSize);
+    const minY = Math.floor((Math.min(a.y, b.y) - buffer) / bucketSize);
+    const maxY = Math.floor((Math.max(a.y, b.y) + buffer) / bucketSize);
+
+    for (let bx = minX; bx <= maxX; bx++) {
+      for (let by = minY; by <= maxY; by++) {
+        const key = `${bx}:${by}`;
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push(segment);
+        } else {
+          buckets.set(key, [segment]);
+        }
+      }
+    }
+  });
+
+  return (point: ProjectedPoint) =>
+    buckets.get(`${Math.floor(point.x / bucketSize)}:${Math.floor(point.y / bucketSize)}`) || [];
+}
+
+// Share of the territory polygon that lies within `bufferMeters` of the walked
+// route, estimated on a regular grid over the polygon's bounding box
+export function calculateTerritoryCoverage(
+  locations: LocationPoint[],
+  boundary: LatLngTuple[],
+  bufferMeters: number = DEFAULT_COVERAGE_BUFFER_M
+): CoverageResult | null {
+  const ring = openRing(boundary);
+  if (ring.length < 3) return null;
+
+  const projection = createLocalProjection(ring[0]);
+  const polygon = ring.map(projection.toMeters);
+
+  const minX = Math.min(...polygon.map(p => p.x));
+  const maxX = Math.max(...polygon.map(p => p.x));
+  const minY = Math.min(...polygon.map(p => p.y));
+  const maxY = Math.max(...polygon.map(p => p.y));
+
+  const bboxArea = (maxX - minX) * (maxY - minY);
+  if (bboxArea <= 0) return null;
+
+  const cellSize = Math.max(
+    MIN_CELL_SIZE_M,
+    bufferMeters / 3,
+    Math.sqrt(bboxArea / MAX_GRID_CELLS)
+  );
+
+  const route = locations.map(loc => projection.toMeters([loc.latitude, loc.longitude]));
+  const segments: Segment[] = route.length === 1
+    ? [[route[0], route[0]]]
+    : route.slice(1).map((point, i) => [route[i], point] as Segment);
+  const findNearbySegments = buildSegmentIndex(segments, Math.max(bufferMeters, cellSize), bufferMeters);
+
+  let insideCells = 0;
+  let coveredCells = 0;
+  const uncoveredRects: [LatLngTuple, LatLngTuple][] = [];
+
+  for (let y = minY; y < maxY; y += cellSize) {
+    let runStart: number | null = null;
+
+    const closeRun = (runEnd: number) => {
+      if (runStart === null) return;
+      uncoveredRects.push([
+        projection.toLatLng({ x: runStart, y }),
+        projection.toLatLng({ x: runEnd, y: y + cellSize }),
+      ]);
+      runStart = null;
+    };
+
+    for (let x = minX; x < maxX; x += cellSize) {
+      const center = { x: x + cellSize / 2, y: y + cellSize / 2 };
+
+      if (!pointInPolygon(center, polygon)) {
+        closeRun(x);
+        continue;
+      }
+
+      insideCells++;
+      const covered = findNearbySegments(center).some(([a, b]) =>
+        distanceToSegment(center, a, b) <= bufferMeters
+      );
+
+      if (covered) {
+        coveredCells++;
+        closeRun(x);
+      } else if (runStart === null) {
+        runStart = x;
+      }
+    }
+
+    closeRun(maxX);
+  }
+
+  if (insideCells === 0) return null;
+
+  const cellArea = cellSize * cellSize;
+  return {
+    coveragePercent: (coveredCells / insideCells) * 100,
+    coveredArea: coveredCells * cellArea,
+    totalArea: insideCells * cellArea,
+    bufferMeters,
+    uncoveredRects,
+  };
+}
@@ -0,0 +1,11 @@
+// Revoking right after click() can cancel the download in some browsers
+const REVOKE_DELAY_MS = 60 * 1000;
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
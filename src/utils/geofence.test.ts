@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { Session } from '../types';
+import { needsGeofenceSummary } from './geofence';
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-1',
+    territoryId: 'territory-1',
+    status: 'completed',
+    ...overrides,
+  } as Session;
+}
+
+describe('needsGeofenceSummary', () => {
+  it('computes a missing summary once the session ended', () => {
+    expect(needsGeofenceSummary(createSession())).toBe(true);
+    expect(needsGeofenceSummary(createSession({ status: 'active' }))).toBe(false);
+    expect(needsGeofenceSummary(createSession({ territoryId: null }))).toBe(false);
+  });
+
+  it('keeps a summary computed for the current territory', () => {
+    const session = createSession({ geofenceViolationCount: 2, geofenceTerritoryId: 'territory-1' });
+    expect(needsGeofenceSummary(session)).toBe(false);
+  });
+
+  it('recomputes the summary after the territory changed', () => {
+    const session = createSession({ geofenceViolationCount: 2, geofenceTerritoryId: 'territory-2' });
+    expect(needsGeofenceSummary(session)).toBe(true);
+  });
+});
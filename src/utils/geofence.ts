@@ -0,0 +1,104 @@
+import type { LocationPoint, Session } from '../types';
+import { getPointTimeMs } from './statistics';
+import { cleanLocations, DEFAULT_GPS_FILTER_CONFIG } from './gpsFilter';
+import {
+  createLocalProjection,
+  pointInPolygon,
+  distanceToSegment,
+  openRing,
+  type LatLngTuple,
+  type ProjectedPoint,
+} from './geometry';
+
+// Points this close outside the boundary are treated as GPS noise, not a violation
+export const DEFAULT_GEOFENCE_TOLERANCE_M = 10;
+
+export interface GeofenceViolation {
+  startIndex: number;
+  endIndex: number; // last point outside the territory
+  startMs: number;
+  endMs: number;
+  durationMs: number;
+  maxDistanceMeters: number;
+}
+
+function distanceToBoundary(point: ProjectedPoint, polygon: ProjectedPoint[]): number {
+  let min = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const distance = distanceToSegment(point, polygon[i], polygon[(i + 1) % polygon.length]);
+    if (distance < min) min = distance;
+  }
+  return min;
+}
+
+export function detectGeofenceViolations(
+  locations: LocationPoint[],
+  boundary: LatLngTuple[],
+  toleranceMeters: number = DEFAULT_GEOFENCE_TOLERANCE_M
+): GeofenceViolation[] {
+  const ring = openRing(boundary);
+  if (ring.length < 3 || locations.length === 0) return [];
+
+  const projection = createLocalProjection(ring[0]);
+  const polygon = ring.map(projection.toMeters);
+  const violations: GeofenceViolation[] = [];
+  let current: GeofenceViolation | null = null;
+
+  locations.forEach((location, index) => {
+    const point = projection.toMeters([location.latitude, location.longitude]);
+    const distance = pointInPolygon(point, polygon) ? 0 : distanceToBoundary(point, polygon);
+    const timeMs = getPointTimeMs(location);
+
+    if (distance > toleranceMeters) {
+      if (!current) {
+        current = {
+          startIndex: index,
+          endIndex: index,
+          startMs: timeMs,
+          endMs: timeMs,
+          durationMs: 0,
+          maxDistanceMeters: distance,
+        };
+        violations.push(current);
+      } else {
+        current.endIndex = index;
+        current.endMs = timeMs;
+        current.maxDistanceMeters = Math.max(current.maxDistanceMeters, distance);
+      }
+    } else if (current) {
+      // The worker was back inside by this point
+      current.endMs = timeMs;
+      current = null;
+    }
+  });
+
+  violations.forEach(violation => {
+    violation.durationMs = Math.max(0, violation.endMs - violation.startMs);
+  });
+
+  return violations;
+}
+
+export interface GeofenceSummary {
+  geofenceViolationCount: number;
+  geofenceOutsideMs: number;
+  geofenceTerritoryId: string;
+}
+
+// The stored summary is shared by every viewer, so it always uses the default
+// GPS filter rather than whatever the current user tuned theirs to
+export function computeGeofenceSummary(points: LocationPoint[], boundary: LatLngTuple[], territoryId: string): GeofenceSummary {
+  const violations = detectGeofenceViolations(cleanLocations(points, DEFAULT_GPS_FILTER_CONFIG).locations, boundary);
+  return {
+    geofenceViolationCount: violations.length,
+    geofenceOutsideMs: violations.reduce((sum, v) => sum + v.durationMs, 0),
+    geofenceTerritoryId: territoryId,
+  };
+}
+
+// Missing, or computed before the session was moved to another territory
+export function needsGeofenceSummary(session: Session): boolean {
+  return !!session.territoryId &&
+    session.status !== 'active' &&
+    (session.geofenceViolationCount === undefined || session.geofenceTerritoryId !== session.territoryId);
+}
@@ -0,0 +1,168 @@
+// Leaflet order: [latitude, longitude]
+export type LatLngTuple = [number, number];
+
+export function parseTerritoryBoundary(boundaryGeoJSON: string | null | undefined): LatLngTuple[] {
+  if (!boundaryGeoJSON) return [];
+
+  try {
+    const geoJSON = JSON.parse(boundaryGeoJSON);
+    return geoJSON.coordinates[0].map((coord: number[]) =>
+      [coord[1], coord[0]] as LatLngTuple
+    );
+  } catch (e) {
+    console.error('Error parsing boundary:', e);
+    return [];
+  }
+}
+
+// Drops the closing vertex GeoJSON rings repeat at the end
+export function openRing(vertices: LatLngTuple[]): LatLngTuple[] {
+  if (vertices.length < 2) return vertices;
+  const first = vertices[0];
+  const last = vertices[vertices.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? vertices.slice(0, -1) : vertices;
+}
+
+export function verticesToBoundaryGeoJSON(vertices: LatLngTuple[]): string {
+  const ring = openRing(vertices).map(([lat, lng]) => [lng, lat]);
+  if (ring.length > 0) ring.push(ring[0]);
+  return JSON.stringify({ type: 'Polygon', coordinates: [ring] });
+}
+
+function orientation(a: LatLngTuple, b: LatLngTuple, c: LatLngTuple): number {
+  const value = (b[1] - a[1]) * (c[0] - b[0]) - (b[0] - a[0]) * (c[1] - b[1]);
+  if (Math.abs(value) < 1e-15) return 0;
+  return value > 0 ? 1 : 2;
+}
+
+function onSegment(a: LatLngTuple, b: LatLngTuple, c: LatLngTuple): boolean {
+  return (
+    b[0] <= Math.max(a[0], c[0]) && b[0] >= Math.min(a[0], c[0]) &&
+    b[1] <= Math.max(a[1], c[1]) && b[1] >= Math.min(a[1], c[1])
+  );
+}
+
+export function segmentsIntersect(
+  p1: LatLngTuple,
+  q1: LatLngTuple,
+  p2: LatLngTuple,
+  q2: LatLngTuple
+): boolean {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+
+  if (o1 === 0 && onSegment(p1, p2, q1)) return true;
+  if (o2 === 0 && onSegment(p1, q2, q1)) return true;
+  if (o3 === 0 && onSegment(p2, p1, q2)) return true;
+  if (o4 === 0 && onSegment(p2, q1, q2)) return true;
+
+  return false;
+}
+
+// Returns pairs of edge indexes that cross; edge i runs from vertex i to i + 1
+export function findSelfIntersections(vertices: LatLngTuple[]): [number, number][] {
+  const ring = openRing(vertices);
+  const n = ring.length;
+  const intersections: [number, number][] = [];
+  if (n < 4) return intersections;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      // Adjacent edges share a vertex and always "touch"
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+
+      if (segmentsIntersect(ring[i], ring[(i + 1) % n], ring[j], ring[(j + 1) % n])) {
+        intersections.push([i, j]);
+      }
+    }
+  }
+
+  return intersections;
+}
+
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Equirectangular projection around an origin, accurate enough at city scale
+export function createLocalProjection(origin: LatLngTuple) {
+  const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((origin[0] * Math.PI) / 180);
+
+  return {
+    toMeters: ([lat, lng]: LatLngTuple): ProjectedPoint => ({
+      x: (lng - origin[1]) * metersPerDegreeLng,
+      y: (lat - origin[0]) * METERS_PER_DEGREE_LAT,
+    }),
+    toLatLng: ({ x, y }: ProjectedPoint): LatLngTuple => [
+      origin[0] + y / METERS_PER_DEGREE_LAT,
+      origin[1] + x / metersPerDegreeLng,
+    ],
+  };
+}
+
+export function pointInPolygon(point: ProjectedPoint, polygon: ProjectedPoint[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+export function distanceToSegment(point: ProjectedPoint, a: ProjectedPoint, b: ProjectedPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  let t = lengthSquared === 0 ? 0 : ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared;
+  t = Math.max(0, Math.min(1, t));
+
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+// Douglas–Peucker, iterative so long routes don't blow the call stack
+export function simplifyPath(points: LatLngTuple[], toleranceMeters: number): LatLngTuple[] {
+  if (points.length < 3 || toleranceMeters <= 0) return points;
+
+  const projection = createLocalProjection(points[0]);
+  const projected = points.map(projection.toMeters);
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  let range: [number, number] | undefined;
+  while ((range = stack.pop())) {
+    const [first, last] = range;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(projected[i], projected[first], projected[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = 1;
+      stack.push([first, maxIndex], [maxIndex, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index] === 1);
+}
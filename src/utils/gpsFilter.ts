@@ -0,0 +1,150 @@
+import type { LocationPoint } from '../types';
+import { calculateDistance, getPointTimeMs } from './statistics';
+
+export type SmoothingMode = 'none' | 'moving-average' | 'kalman';
+
+export interface GpsFilterConfig {
+  maxAccuracyMeters: number; // 0 disables the accuracy filter
+  maxSpeedKmh: number; // 0 disables the outlier filter
+  smoothing: SmoothingMode;
+}
+
+export interface CleanedLocations {
+  locations: LocationPoint[];
+  removedByAccuracy: number;
+  removedBySpeed: number;
+}
+
+export const DEFAULT_GPS_FILTER_CONFIG: GpsFilterConfig = {
+  maxAccuracyMeters: 30,
+  maxSpeedKmh: 40,
+  smoothing: 'none',
+};
+
+export const ACCURACY_THRESHOLD_OPTIONS = [0, 15, 30, 50, 100];
+export const MAX_SPEED_OPTIONS = [0, 20, 40, 80];
+
+export const SMOOTHING_LABELS: Record<SmoothingMode, string> = {
+  none: 'Bez zaglađivanja',
+  'moving-average': 'Pomični prosjek',
+  kalman: 'Kalman',
+};
+
+const MOVING_AVERAGE_WINDOW = 5;
+const KALMAN_PROCESS_NOISE = 3; // m/s, roughly how fast a walker can change course
+const MIN_ACCURACY_M = 1;
+
+const CONFIG_STORAGE_KEY = 'prizma_gps_filter';
+
+export function loadGpsFilterConfig(): GpsFilterConfig {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (!stored) return DEFAULT_GPS_FILTER_CONFIG;
+    return { ...DEFAULT_GPS_FILTER_CONFIG, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading GPS filter config:', error);
+    return DEFAULT_GPS_FILTER_CONFIG;
+  }
+}
+
+export function saveGpsFilterConfig(config: GpsFilterConfig): void {
+  try {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error saving GPS filter config:', error);
+  }
+}
+
+// Points without an accuracy value are kept, older app versions didn't send it
+function filterByAccuracy(locations: LocationPoint[], maxAccuracyMeters: number): LocationPoint[] {
+  if (maxAccuracyMeters <= 0) return locations;
+  return locations.filter(loc => !loc.accuracy || loc.accuracy <= maxAccuracyMeters);
+}
+
+// Compares each point with the last kept one, so a single jump is dropped
+// without also dropping the good point that follows it
+function filterSpeedOutliers(locations: LocationPoint[], maxSpeedKmh: number): LocationPoint[] {
+  if (maxSpeedKmh <= 0 || locations.length < 2) return locations;
+
+  const maxSpeed = maxSpeedKmh / 3.6;
+  const kept = [locations[0]];
+
+  for (let i = 1; i < locations.length; i++) {
+    const last = kept[kept.length - 1];
+    const distance = calculateDistance(last.latitude, last.longitude, locations[i].latitude, locations[i].longitude);
+    const seconds = Math.max(1, (getPointTimeMs(locations[i]) - getPointTimeMs(last)) / 1000);
+
+    if (distance / seconds <= maxSpeed) {
+      kept.push(locations[i]);
+    }
+  }
+
+  return kept;
+}
+
+function smoothMovingAverage(locations: LocationPoint[]): LocationPoint[] {
+  const half = Math.floor(MOVING_AVERAGE_WINDOW / 2);
+
+  return locations.map((loc, index) => {
+    const window = locations.slice(Math.max(0, index - half), index + half + 1);
+    return {
+      ...loc,
+      latitude: window.reduce((sum, p) => sum + p.latitude, 0) / window.length,
+      longitude: window.reduce((sum, p) => sum + p.longitude, 0) / window.length,
+    };
+  });
+}
+
+// Constant-position Kalman filter weighted by each point's reported accuracy;
+// variance is kept in degrees² to avoid projecting every point
+function smoothKalman(locations: LocationPoint[]): LocationPoint[] {
+  const metersToDegrees = 1 / 111320;
+  let variance = -1;
+  let latitude = 0;
+  let longitude = 0;
+  let lastTimeMs = 0;
+
+  return locations.map(loc => {
+    const accuracy = Math.max(loc.accuracy || MIN_ACCURACY_M, MIN_ACCURACY_M) * metersToDegrees;
+    const timeMs = getPointTimeMs(loc);
+
+    if (variance < 0) {
+      variance = accuracy * accuracy;
+      latitude = loc.latitude;
+      longitude = loc.longitude;
+    } else {
+      const seconds = Math.max(0, (timeMs - lastTimeMs) / 1000);
+      const processNoise = KALMAN_PROCESS_NOISE * metersToDegrees;
+      variance += seconds * processNoise * processNoise;
+
+      const gain = variance / (variance + accuracy * accuracy);
+      latitude += gain * (loc.latitude - latitude);
+      longitude += gain * (loc.longitude - longitude);
+      variance = (1 - gain) * variance;
+    }
+
+    lastTimeMs = timeMs;
+    return { ...loc, latitude, longitude };
+  });
+}
+
+export function cleanLocations(
+  locations: LocationPoint[],
+  config: GpsFilterConfig = DEFAULT_GPS_FILTER_CONFIG
+): CleanedLocations {
+  const accurate = filterByAccuracy(locations, config.maxAccuracyMeters);
+  const plausible = filterSpeedOutliers(accurate, config.maxSpeedKmh);
+
+  let cleaned = plausible;
+  if (config.smoothing === 'moving-average') {
+    cleaned = smoothMovingAverage(plausible);
+  } else if (config.smoothing === 'kalman') {
+    cleaned = smoothKalman(plausible);
+  }
+
+  return {
+    locations: cleaned,
+    removedByAccuracy: locations.length - accurate.length,
+    removedBySpeed: accurate.length - plausible.length,
+  };
+}
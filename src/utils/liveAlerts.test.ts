@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationPoint, Session } from '../types';
+import { DEFAULT_ALERT_RULES, evaluateLiveAlerts, isAlertDismissed, keepConditionStarts } from './liveAlerts';
+
+const START_MS = new Date('2026-03-10T12:00:00').getTime();
+const POINT_INTERVAL_MS = 15 * 1000;
+
+const session = {
+  id: 'session-1',
+  workerId: 'worker-1',
+  workerName: 'Ana',
+  territoryId: null,
+  status: 'active',
+} as Session;
+
+// About 27 km/h, well above the walking limit
+function drivingPoints(count: number): LocationPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    latitude: 43.5 + i * 0.001,
+    longitude: 16.4,
+    speed: 0,
+    accuracy: 5,
+    timestamp: new Date(START_MS + i * POINT_INTERVAL_MS),
+    timestampMs: START_MS + i * POINT_INTERVAL_MS,
+  }));
+}
+
+function evaluateAt(pointCount: number) {
+  const points = drivingPoints(pointCount);
+  const nowMs = points[points.length - 1].timestampMs ?? 0;
+  return evaluateLiveAlerts(session, points, null, DEFAULT_ALERT_RULES, nowMs)
+    .filter(alert => alert.type === 'speeding');
+}
+
+describe('keepConditionStarts', () => {
+  it('keeps the speeding start while the worker keeps driving', () => {
+    const first = evaluateAt(10);
+    const later = evaluateAt(40);
+    expect(later[0].since).toBeGreaterThan(first[0].since);
+
+    expect(keepConditionStarts(later, first)[0].since).toBe(first[0].since);
+  });
+
+  it('keeps an acknowledged speeding alert hidden while the condition lasts', () => {
+    const first = evaluateAt(10);
+    const dismissals = { acknowledged: { [first[0].id]: first[0].since + 1 }, snoozedUntil: {} };
+    const later = keepConditionStarts(evaluateAt(40), first);
+
+    expect(isAlertDismissed(later[0], dismissals, START_MS + 40 * POINT_INTERVAL_MS)).toBe(true);
+  });
+
+  it('starts over once the condition cleared', () => {
+    const first = evaluateAt(10);
+    const later = evaluateAt(40);
+
+    expect(keepConditionStarts(later, keepConditionStarts([], first))[0].since).toBe(later[0].since);
+  });
+});
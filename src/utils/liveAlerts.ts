@@ -0,0 +1,254 @@
+import type { LocationPoint, Session } from '../types';
+import { calculateDistance, getPointTimeMs } from './statistics';
+import { detectGeofenceViolations } from './geofence';
+import type { LatLngTuple } from './geometry';
+
+export type AlertType = 'stationary' | 'speeding' | 'out_of_territory' | 'gps_silent';
+
+// A threshold of 0 turns the rule off
+export interface AlertRules {
+  stationaryMinutes: number;
+  stationaryRadiusMeters: number;
+  maxWalkingSpeedKmh: number;
+  checkTerritory: boolean;
+  outsideToleranceMeters: number;
+  gpsSilentMinutes: number;
+}
+
+// Worker overrides win over territory overrides, which win over the defaults
+export interface AlertConfig {
+  defaults: AlertRules;
+  territories: Record<string, Partial<AlertRules>>;
+  workers: Record<string, Partial<AlertRules>>;
+}
+
+export interface LiveAlert {
+  id: string; // one alert per session and rule
+  type: AlertType;
+  session: Session;
+  since: number; // when the condition started, ms
+  message: string;
+}
+
+// Acknowledged alerts stay hidden until the condition clears and starts again;
+// snoozed ones come back after the snooze even if nothing changed
+export interface AlertDismissals {
+  acknowledged: Record<string, number>; // alert id -> acknowledged at, ms
+  snoozedUntil: Record<string, number>;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  stationaryMinutes: 15,
+  stationaryRadiusMeters: 30,
+  maxWalkingSpeedKmh: 12,
+  checkTerritory: true,
+  outsideToleranceMeters: 25,
+  gpsSilentMinutes: 5,
+};
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  defaults: DEFAULT_ALERT_RULES,
+  territories: {},
+  workers: {},
+};
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  stationary: '🛑 Miruje',
+  speeding: '🚗 Prebrzo',
+  out_of_territory: '🚧 Izvan terena',
+  gps_silent: '📵 GPS utihnuo',
+};
+
+export const ALERT_CHECK_INTERVAL_MS = 15 * 1000;
+// Enough history for the longest sensible stationary threshold
+export const ALERT_LOOKBACK_MS = 2 * 60 * 60 * 1000;
+export const SNOOZE_OPTIONS_MINUTES = [15, 60];
+
+// Speed is averaged over a short window so single GPS jumps don't count as driving
+const SPEED_WINDOW_MS = 2 * 60 * 1000;
+const MIN_SPEED_WINDOW_MS = 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DISMISSAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+const CONFIG_STORAGE_KEY = 'prizma_alert_rules';
+const DISMISSALS_STORAGE_KEY = 'prizma_alert_dismissals';
+
+export function loadAlertConfig(): AlertConfig {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (!stored) return DEFAULT_ALERT_CONFIG;
+    const parsed = JSON.parse(stored);
+    return {
+      defaults: { ...DEFAULT_ALERT_RULES, ...parsed.defaults },
+      territories: parsed.territories || {},
+      workers: parsed.workers || {},
+    };
+  } catch (error) {
+    console.error('Error loading alert rules:', error);
+    return DEFAULT_ALERT_CONFIG;
+  }
+}
+
+export function saveAlertConfig(config: AlertConfig): void {
+  try {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error saving alert rules:', error);
+  }
+}
+
+export function loadAlertDismissals(): AlertDismissals {
+  try {
+    const stored = localStorage.getItem(DISMISSALS_STORAGE_KEY);
+    if (!stored) return { acknowledged: {}, snoozedUntil: {} };
+    const parsed = JSON.parse(stored);
+    return { acknowledged: parsed.acknowledged || {}, snoozedUntil: parsed.snoozedUntil || {} };
+  } catch (error) {
+    console.error('Error loading alert dismissals:', error);
+    return { acknowledged: {}, snoozedUntil: {} };
+  }
+}
+
+function pruneEntries(entries: Record<string, number>, minMs: number): Record<string, number> {
+  return Object.fromEntries(Object.entries(entries).filter(([, ms]) => ms >= minMs));
+}
+
+export function saveAlertDismissals(dismissals: AlertDismissals): void {
+  const nowMs = Date.now();
+  try {
+    localStorage.setItem(DISMISSALS_STORAGE_KEY, JSON.stringify({
+      acknowledged: pruneEntries(dismissals.acknowledged, nowMs - DISMISSAL_TTL_MS),
+      snoozedUntil: pruneEntries(dismissals.snoozedUntil, nowMs),
+    }));
+  } catch (error) {
+    console.error('Error saving alert dismissals:', error);
+  }
+}
+
+export function resolveAlertRules(config: AlertConfig, session: Session): AlertRules {
+  return {
+    ...config.defaults,
+    ...(session.territoryId ? config.territories[session.territoryId] : undefined),
+    ...config.workers[session.workerId],
+  };
+}
+
+export function isAlertDismissed(alert: LiveAlert, dismissals: AlertDismissals, nowMs: number): boolean {
+  const acknowledgedAt = dismissals.acknowledged[alert.id];
+  if (acknowledgedAt !== undefined && alert.since <= acknowledgedAt) return true;
+  return (dismissals.snoozedUntil[alert.id] || 0) > nowMs;
+}
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.floor(ms / MINUTE_MS);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function distanceBetween(a: LocationPoint, b: LocationPoint): number {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+// The earliest point of the unbroken run of points around the latest position
+function findStationarySince(points: LocationPoint[], radiusMeters: number): number {
+  const last = points[points.length - 1];
+  let since = getPointTimeMs(last);
+
+  for (let i = points.length - 2; i >= 0; i--) {
+    if (distanceBetween(points[i], last) > radiusMeters) break;
+    since = getPointTimeMs(points[i]);
+  }
+
+  return since;
+}
+
+function getRecentSpeed(points: LocationPoint[]): { speedKmh: number; since: number } | null {
+  const lastMs = getPointTimeMs(points[points.length - 1]);
+  const window = points.filter(p => lastMs - getPointTimeMs(p) <= SPEED_WINDOW_MS);
+  if (window.length < 3) return null;
+
+  const since = getPointTimeMs(window[0]);
+  const elapsedMs = lastMs - since;
+  if (elapsedMs < MIN_SPEED_WINDOW_MS) return null;
+
+  let distance = 0;
+  for (let i = 1; i < window.length; i++) {
+    distance += distanceBetween(window[i - 1], window[i]);
+  }
+
+  return { speedKmh: (distance / (elapsedMs / 1000)) * 3.6, since };
+}
+
+function createAlert(session: Session, type: AlertType, since: number, message: string): LiveAlert {
+  return { id: `${session.id}:${type}`, type, session, since, message };
+}
+
+// points are the session's recent, already cleaned locations in time order
+export function evaluateLiveAlerts(
+  session: Session,
+  points: LocationPoint[],
+  boundary: LatLngTuple[] | null,
+  rules: AlertRules,
+  nowMs: number
+): LiveAlert[] {
+  if (session.status !== 'active') return [];
+
+  const alerts: LiveAlert[] = [];
+  const last = points[points.length - 1];
+  const lastPointMs = last
+    ? getPointTimeMs(last)
+    : session.lastLocationUpdate?.toDate?.()?.getTime() ?? session.startTime?.toDate?.()?.getTime();
+
+  const isSilent = rules.gpsSilentMinutes > 0 &&
+    lastPointMs !== undefined &&
+    nowMs - lastPointMs > rules.gpsSilentMinutes * MINUTE_MS;
+
+  if (isSilent && lastPointMs !== undefined) {
+    alerts.push(createAlert(session, 'gps_silent', lastPointMs,
+      `Bez GPS signala ${formatMinutes(nowMs - lastPointMs)}`));
+  }
+
+  if (!last) return alerts;
+
+  // Without fresh points the worker's speed and position are unknown, so only
+  // the last known territory check still makes sense
+  if (!isSilent && rules.stationaryMinutes > 0) {
+    const since = findStationarySince(points, rules.stationaryRadiusMeters);
+    const stationaryMs = getPointTimeMs(last) - since;
+    if (stationaryMs >= rules.stationaryMinutes * MINUTE_MS) {
+      alerts.push(createAlert(session, 'stationary', since,
+        `Miruje ${formatMinutes(stationaryMs)} (krug ${rules.stationaryRadiusMeters} m)`));
+    }
+  }
+
+  if (!isSilent && rules.maxWalkingSpeedKmh > 0) {
+    const recent = getRecentSpeed(points);
+    if (recent && recent.speedKmh > rules.maxWalkingSpeedKmh) {
+      alerts.push(createAlert(session, 'speeding', recent.since,
+        `${recent.speedKmh.toFixed(0)} km/h, vjerojatno vozi`));
+    }
+  }
+
+  if (rules.checkTerritory && boundary && boundary.length >= 3) {
+    const violations = detectGeofenceViolations(points, boundary, rules.outsideToleranceMeters);
+    const current = violations[violations.length - 1];
+    if (current && current.endIndex === points.length - 1) {
+      alerts.push(createAlert(session, 'out_of_territory', current.startMs,
+        `Izvan terena ${formatMinutes(getPointTimeMs(last) - current.startMs)}, do ${Math.round(current.maxDistanceMeters)} m`));
+    }
+  }
+
+  return alerts;
+}
+
+// Rules only see a sliding window of points, so the start they report moves
+// forward while the condition lasts. An alert present in the previous check
+// keeps its earlier start; one that cleared starts over.
+export function keepConditionStarts(alerts: LiveAlert[], previous: LiveAlert[]): LiveAlert[] {
+  const previousSince = new Map(previous.map(alert => [alert.id, alert.since]));
+
+  return alerts.map(alert => {
+    const since = previousSince.get(alert.id);
+    return since !== undefined && since < alert.since ? { ...alert, since } : alert;
+  });
+}
@@ -0,0 +1,190 @@
+import { useSyncExternalStore } from 'react';
+
+export type NotificationEventType = 'session_started' | 'session_ended' | 'session_auto_closed' | 'live_alert';
+
+export interface NotificationPrefs {
+  browser: boolean; // Web Notifications while the tab is in the background
+  sound: boolean;
+  events: Record<NotificationEventType, boolean>;
+}
+
+export interface NotificationEntry {
+  id: string;
+  type: NotificationEventType;
+  title: string;
+  body: string;
+  sourceId: string | null; // session or alert the entry is about
+  createdAt: number;
+  read: boolean;
+}
+
+export type NotificationInput = Pick<NotificationEntry, 'type' | 'title' | 'body' | 'sourceId'>;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  session_started: '▶️ Početak sesije',
+  session_ended: '⏹️ Kraj sesije',
+  session_auto_closed: '⏱️ Automatsko zatvaranje',
+  live_alert: '⚠️ Upozorenje',
+};
+
+// Both channels are opt-in; every event type is on once a channel is enabled
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  browser: false,
+  sound: false,
+  events: {
+    session_started: true,
+    session_ended: true,
+    session_auto_closed: true,
+    live_alert: true,
+  },
+};
+
+const HISTORY_LIMIT = 100;
+const CHANGE_EVENT = 'prizma:notifications';
+const EMPTY_HISTORY: NotificationEntry[] = [];
+
+const prefsKey = (uid: string) => `prizma_notification_prefs_${uid}`;
+const historyKey = (uid: string) => `prizma_notification_history_${uid}`;
+
+export function loadNotificationPrefs(uid: string): NotificationPrefs {
+  try {
+    const stored = localStorage.getItem(prefsKey(uid));
+    if (!stored) return DEFAULT_NOTIFICATION_PREFS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_NOTIFICATION_PREFS,
+      ...parsed,
+      events: { ...DEFAULT_NOTIFICATION_PREFS.events, ...parsed.events },
+    };
+  } catch (error) {
+    console.error('Error loading notification preferences:', error);
+    return DEFAULT_NOTIFICATION_PREFS;
+  }
+}
+
+export function saveNotificationPrefs(uid: string, prefs: NotificationPrefs): void {
+  try {
+    localStorage.setItem(prefsKey(uid), JSON.stringify(prefs));
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+  }
+}
+
+// Parsed history is cached by its raw string so useSyncExternalStore gets a stable snapshot
+let historyCache: { key: string; raw: string | null; entries: NotificationEntry[] } | null = null;
+
+export function loadNotificationHistory(uid: string): NotificationEntry[] {
+  const key = historyKey(uid);
+  try {
+    const raw = localStorage.getItem(key);
+    if (historyCache?.key === key && historyCache.raw === raw) return historyCache.entries;
+
+    const entries: NotificationEntry[] = raw ? JSON.parse(raw) : EMPTY_HISTORY;
+    historyCache = { key, raw, entries };
+    return entries;
+  } catch (error) {
+    console.error('Error loading notification history:', error);
+    return EMPTY_HISTORY;
+  }
+}
+
+function saveNotificationHistory(uid: string, entries: NotificationEntry[]): void {
+  try {
+    localStorage.setItem(historyKey(uid), JSON.stringify(entries.slice(0, HISTORY_LIMIT)));
+  } catch (error) {
+    console.error('Error saving notification history:', error);
+  }
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function markNotificationsRead(uid: string): void {
+  saveNotificationHistory(uid, loadNotificationHistory(uid).map(entry => ({ ...entry, read: true })));
+}
+
+export function clearNotificationHistory(uid: string): void {
+  saveNotificationHistory(uid, []);
+}
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  // Other tabs of the same user write to the same history
+  window.addEventListener('storage', onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onChange);
+  };
+}
+
+export function useNotificationHistory(uid: string | null): NotificationEntry[] {
+  return useSyncExternalStore(subscribe, () => uid ? loadNotificationHistory(uid) : EMPTY_HISTORY);
+}
+
+export function isBrowserNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export async function requestBrowserNotificationPermission(): Promise<boolean> {
+  if (!isBrowserNotificationSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+let audioContext: AudioContext | null = null;
+
+// Two short tones generated on the fly, so there's no audio asset to ship.
+// Browsers only allow audio after a user gesture, which enabling the sound provides.
+export function playChime(): void {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const context = audioContext;
+    if (context.state === 'suspended') context.resume();
+
+    [880, 1320].forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.15;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.001, start);
+      gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    });
+  } catch (error) {
+    console.error('Error playing notification sound:', error);
+  }
+}
+
+export function notify(uid: string, input: NotificationInput): void {
+  const prefs = loadNotificationPrefs(uid);
+  if (!prefs.events[input.type]) return;
+
+  const entry: NotificationEntry = {
+    ...input,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+    read: false,
+  };
+  saveNotificationHistory(uid, [entry, ...loadNotificationHistory(uid)]);
+
+  console.log(`🔔 ${input.title}: ${input.body}`);
+
+  if (prefs.sound) playChime();
+
+  // While the portal is in front the drawer and panels already show the event
+  if (prefs.browser && document.hidden && isBrowserNotificationSupported() && Notification.permission === 'granted') {
+    try {
+      const notification = new Notification(input.title, { body: input.body, tag: input.sourceId || undefined });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    } catch (error) {
+      console.error('Error showing browser notification:', error);
+    }
+  }
+}
@@ -1,23 +1,36 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { Session, Territory, LocationPoint } from '../types';
-import { calculateSessionStats } from './statistics';
+import type { Session, SessionStatus, Territory, LocationPoint } from '../types';
+import { calculateSessionStats, formatDuration } from './statistics';
+import { parseTerritoryBoundary } from './geometry';
+import { calculateTerritoryCoverage, DEFAULT_COVERAGE_BUFFER_M } from './coverage';
+import { detectStops } from './stops';
+
+// jsPDF's built-in fonts have no emoji, so the UI labels can't be reused here
+const PDF_STATUS_LABELS: Record<SessionStatus, string> = {
+  active: 'Aktivan',
+  completed: 'Završen',
+  auto_completed: 'Automatski zatvoren',
+};
 
 interface ExportData {
   session: Session;
   locations: LocationPoint[];
   territory: Territory | null;
   mapElement: HTMLElement;
+  coverageBufferMeters?: number;
 }
 
 export async function generateSessionPDF(data: ExportData): Promise<void> {
-  const { session, locations, territory, mapElement } = data;
+  const { session, locations, territory, mapElement, coverageBufferMeters = DEFAULT_COVERAGE_BUFFER_M } = data;
 
   // Calculate stats
+  const stops = detectStops(locations);
   const stats = calculateSessionStats(
     locations,
     session.startTime?.toDate() || new Date(),
-    session.endTime?.toDate() || null
+    session.endTime?.toDate() || null,
+    stops
   );
 
   // Create PDF
@@ -47,8 +60,14 @@ export async function generateSessionPDF(data: ExportData): Promise<void> {
     yPosition += 7;
   }
 
-  pdf.text(`Status: ${session.status === 'active' ? 'Aktivan' : 'Završen'}`, 20, yPosition);
-  yPosition += 15;
+  pdf.text(`Status: ${PDF_STATUS_LABELS[session.status]}`, 20, yPosition);
+  yPosition += 7;
+
+  if (session.autoClosedReason) {
+    pdf.text(`Razlog zatvaranja: ${session.autoClosedReason}`, 20, yPosition);
+    yPosition += 7;
+  }
+  yPosition += 8;
 
   // Statistics section
   pdf.setFontSize(14);
@@ -62,6 +81,8 @@ export async function generateSessionPDF(data: ExportData): Promise<void> {
   const statsData = [
     ['Udaljenost:', `${stats.totalDistanceKm.toFixed(2)} km`],
     ['Trajanje:', stats.durationFormatted],
+    ['Vrijeme kretanja:', formatDuration(stats.movingTime)],
+    ['Vrijeme stajanja:', `${formatDuration(stats.stoppedTime)} (${stops.length} stajanja)`],
     ['Prosječna brzina:', `${stats.averageSpeedKmh.toFixed(1)} km/h`],
     ['Maksimalna brzina:', `${stats.maxSpeedKmh.toFixed(1)} km/h`],
     ['GPS točaka:', `${locations.length}`],
@@ -71,6 +92,17 @@ export async function generateSessionPDF(data: ExportData): Promise<void> {
     statsData.push(['Odabir letaka:', `${session.flyerCount}`]);
   }
 
+  const coverage = territory
+    ? calculateTerritoryCoverage(locations, parseTerritoryBoundary(territory.boundaryGeoJSON), coverageBufferMeters)
+    : null;
+
+  if (coverage) {
+    statsData.push([
+      'Pokrivenost terena:',
+      `${coverage.coveragePercent.toFixed(0)}% (± ${coverage.bufferMeters} m)`,
+    ]);
+  }
+
   statsData.forEach(([label, value]) => {
     pdf.text(label, 20, yPosition);
     pdf.text(value, 80, yPosition);
@@ -104,9 +136,53 @@ export async function generateSessionPDF(data: ExportData): Promise<void> {
     }
 
     pdf.addImage(imgData, 'PNG', 20, yPosition, imgWidth, imgHeight);
+    yPosition += imgHeight + 15;
   } catch (error) {
     console.error('Error capturing map:', error);
     pdf.text('Greška pri generiranju mape', 20, yPosition);
+    yPosition += 15;
+  }
+
+  // Stops table
+  if (stops.length > 0) {
+    if (yPosition > pageHeight - 50) {
+      pdf.addPage();
+      yPosition = 20;
+    }
+
+    pdf.setFontSize(14);
+    pdf.setTextColor(16, 185, 129);
+    pdf.text('Stajanja', 20, yPosition);
+    yPosition += 10;
+
+    const drawStopsHeader = () => {
+      pdf.setFontSize(9);
+      pdf.setTextColor(100, 100, 100);
+      pdf.text('#', 20, yPosition);
+      pdf.text('Od', 30, yPosition);
+      pdf.text('Do', 55, yPosition);
+      pdf.text('Trajanje', 80, yPosition);
+      pdf.text('Lokacija', 110, yPosition);
+      yPosition += 7;
+      pdf.setTextColor(0, 0, 0);
+    };
+
+    drawStopsHeader();
+
+    stops.forEach((stop, index) => {
+      if (yPosition > pageHeight - 25) {
+        pdf.addPage();
+        yPosition = 20;
+        drawStopsHeader();
+      }
+
+      pdf.text(`${index + 1}`, 20, yPosition);
+      pdf.text(new Date(stop.startMs).toLocaleTimeString('hr-HR'), 30, yPosition);
+      pdf.text(new Date(stop.endMs).toLocaleTimeString('hr-HR'), 55, yPosition);
+      pdf.text(formatDuration(Math.round(stop.durationMs / 1000)), 80, yPosition);
+      pdf.text(`${stop.latitude.toFixed(5)}, ${stop.longitude.toFixed(5)}`, 110, yPosition);
+      yPosition += 6;
+    });
   }
 
   // Footer
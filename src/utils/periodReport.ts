@@ -0,0 +1,361 @@
+import jsPDF from 'jspdf';
+import type { Session, Territory, LocationPoint } from '../types';
+import { calculateSessionStats, formatDuration, type SessionStats } from './statistics';
+import { detectStops } from './stops';
+import { parseTerritoryBoundary, createLocalProjection, type LatLngTuple } from './geometry';
+
+export interface ReportSessionData {
+  session: Session;
+  locations: LocationPoint[];
+  territory: Territory | null;
+}
+
+export interface PeriodReportData {
+  subjectLabel: string; // "Radnik" or "Teren"
+  subjectName: string;
+  dateFrom: string; // YYYY-MM-DD
+  dateTo: string;
+  sessions: ReportSessionData[];
+}
+
+interface SessionSummary extends ReportSessionData {
+  stats: SessionStats;
+  start: Date;
+  end: Date | null;
+}
+
+interface DayTotals {
+  date: string;
+  sessions: number;
+  distance: number;
+  duration: number;
+  flyers: number;
+}
+
+const MARGIN = 20;
+const ROW_HEIGHT = 6;
+const THUMBNAIL_MAX_POINTS = 300;
+
+function summarize(data: ReportSessionData): SessionSummary {
+  const start: Date = data.session.startTime?.toDate?.() || new Date();
+  const end: Date | null = data.session.endTime?.toDate?.() || null;
+
+  return {
+    ...data,
+    start,
+    end,
+    stats: calculateSessionStats(data.locations, start, end, detectStops(data.locations)),
+  };
+}
+
+export function calculateDayTotals(summaries: { start: Date; stats: SessionStats; session: Session }[]): DayTotals[] {
+  const days = new Map<string, DayTotals>();
+
+  summaries.forEach(({ start, stats, session }) => {
+    const date = start.toLocaleDateString('hr-HR');
+    const day = days.get(date) || { date, sessions: 0, distance: 0, duration: 0, flyers: 0 };
+    day.sessions++;
+    day.distance += stats.totalDistance;
+    day.duration += stats.duration;
+    day.flyers += session.flyerCount || 0;
+    days.set(date, day);
+  });
+
+  return Array.from(days.values());
+}
+
+function formatPeriodDate(value: string): string {
+  return value ? new Date(value).toLocaleDateString('hr-HR') : '...';
+}
+
+function drawTable(
+  pdf: jsPDF,
+  y: number,
+  columns: { label: string; x: number }[],
+  rows: string[][]
+): number {
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const pageWidth = pdf.internal.pageSize.getWidth();
+
+  const drawHeader = () => {
+    pdf.setFontSize(9);
+    pdf.setTextColor(100, 100, 100);
+    columns.forEach(column => pdf.text(column.label, column.x, y));
+    pdf.setDrawColor(229, 231, 235);
+    pdf.line(MARGIN, y + 2, pageWidth - MARGIN, y + 2);
+    y += ROW_HEIGHT + 1;
+    pdf.setTextColor(0, 0, 0);
+  };
+
+  drawHeader();
+
+  rows.forEach(row => {
+    if (y > pageHeight - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+      drawHeader();
+    }
+    row.forEach((cell, index) => pdf.text(cell, columns[index].x, y));
+    y += ROW_HEIGHT;
+  });
+
+  return y;
+}
+
+// Route drawn as vector lines; no map tiles, so it works offline and stays sharp
+function drawRouteThumbnail(
+  pdf: jsPDF,
+  data: ReportSessionData,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  pdf.setDrawColor(229, 231, 235);
+  pdf.setFillColor(249, 250, 251);
+  pdf.rect(x, y, width, height, 'FD');
+
+  const boundary = data.territory ? parseTerritoryBoundary(data.territory.boundaryGeoJSON) : [];
+  const step = Math.max(1, Math.ceil(data.locations.length / THUMBNAIL_MAX_POINTS));
+  const route: LatLngTuple[] = data.locations
+    .filter((_, index) => index % step === 0 || index === data.locations.length - 1)
+    .map(loc => [loc.latitude, loc.longitude]);
+
+  const allPoints = [...boundary, ...route];
+  if (allPoints.length < 2) {
+    pdf.setFontSize(8);
+    pdf.setTextColor(150, 150, 150);
+    pdf.text('Nema GPS podataka', x + width / 2, y + height / 2, { align: 'center' });
+    return;
+  }
+
+  const projection = createLocalProjection(allPoints[0]);
+  const projected = allPoints.map(projection.toMeters);
+  const minX = Math.min(...projected.map(p => p.x));
+  const maxX = Math.max(...projected.map(p => p.x));
+  const minY = Math.min(...projected.map(p => p.y));
+  const maxY = Math.max(...projected.map(p => p.y));
+
+  const padding = 3;
+  const scale = Math.min(
+    (width - padding * 2) / Math.max(maxX - minX, 1),
+    (height - padding * 2) / Math.max(maxY - minY, 1)
+  );
+  const offsetX = x + (width - (maxX - minX) * scale) / 2;
+  const offsetY = y + (height - (maxY - minY) * scale) / 2;
+
+  const toPage = (point: LatLngTuple): [number, number] => {
+    const { x: px, y: py } = projection.toMeters(point);
+    return [offsetX + (px - minX) * scale, offsetY + (maxY - py) * scale];
+  };
+
+  const drawPath = (points: LatLngTuple[], closed: boolean) => {
+    const pagePoints = points.map(toPage);
+    for (let i = 1; i < pagePoints.length; i++) {
+      pdf.line(pagePoints[i - 1][0], pagePoints[i - 1][1], pagePoints[i][0], pagePoints[i][1]);
+    }
+    if (closed && pagePoints.length > 2) {
+      const first = pagePoints[0];
+      const last = pagePoints[pagePoints.length - 1];
+      pdf.line(last[0], last[1], first[0], first[1]);
+    }
+  };
+
+  if (boundary.length > 2) {
+    pdf.setDrawColor(16, 185, 129);
+    pdf.setLineWidth(0.3);
+    drawPath(boundary, true);
+  }
+
+  if (route.length > 1) {
+    pdf.setDrawColor(59, 130, 246);
+    pdf.setLineWidth(0.5);
+    drawPath(route, false);
+  }
+
+  pdf.setLineWidth(0.2);
+}
+
+export function generatePeriodReportPDF(data: PeriodReportData): void {
+  const summaries = data.sessions
+    .map(summarize)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const dayTotals = calculateDayTotals(summaries);
+
+  const totalDistance = summaries.reduce((sum, s) => sum + s.stats.totalDistance, 0);
+  const totalDuration = summaries.reduce((sum, s) => sum + s.stats.duration, 0);
+  const totalStopped = summaries.reduce((sum, s) => sum + s.stats.stoppedTime, 0);
+  const totalFlyers = summaries.reduce((sum, s) => sum + (s.session.flyerCount || 0), 0);
+  const totalPoints = summaries.reduce((sum, s) => sum + s.locations.length, 0);
+
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  let yPosition = 20;
+
+  // Header
+  pdf.setFontSize(20);
+  pdf.setTextColor(16, 185, 129);
+  pdf.text('Prizma Tracker - Izvještaj za razdoblje', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  pdf.setFontSize(12);
+  pdf.setTextColor(0, 0, 0);
+  pdf.text(`${data.subjectLabel}: ${data.subjectName}`, MARGIN, yPosition);
+  yPosition += 7;
+  pdf.text(`Razdoblje: ${formatPeriodDate(data.dateFrom)} - ${formatPeriodDate(data.dateTo)}`, MARGIN, yPosition);
+  yPosition += 15;
+
+  // Totals
+  pdf.setFontSize(14);
+  pdf.setTextColor(16, 185, 129);
+  pdf.text('Ukupno za razdoblje', MARGIN, yPosition);
+  yPosition += 10;
+
+  pdf.setFontSize(11);
+  pdf.setTextColor(0, 0, 0);
+
+  const totalsData = [
+    ['Sesija:', `${summaries.length}`],
+    ['Radnih dana:', `${dayTotals.length}`],
+    ['Udaljenost:', `${(totalDistance / 1000).toFixed(2)} km`],
+    ['Trajanje:', formatDuration(totalDuration)],
+    ['Vrijeme stajanja:', formatDuration(totalStopped)],
+    ['Prosječna brzina:', `${totalDuration > 0 ? ((totalDistance / totalDuration) * 3.6).toFixed(1) : '0.0'} km/h`],
+    ['Letaka:', `${totalFlyers}`],
+    ['GPS točaka:', `${totalPoints}`],
+  ];
+
+  totalsData.forEach(([label, value]) => {
+    pdf.text(label, MARGIN, yPosition);
+    pdf.text(value, 80, yPosition);
+    yPosition += 7;
+  });
+
+  yPosition += 8;
+
+  // Per-day totals
+  pdf.setFontSize(14);
+  pdf.setTextColor(16, 185, 129);
+  pdf.text('Po danima', MARGIN, yPosition);
+  yPosition += 8;
+
+  yPosition = drawTable(
+    pdf,
+    yPosition,
+    [
+      { label: 'Datum', x: MARGIN },
+      { label: 'Sesija', x: 60 },
+      { label: 'Udaljenost', x: 85 },
+      { label: 'Trajanje', x: 120 },
+      { label: 'Letaka', x: 155 },
+    ],
+    dayTotals.map(day => [
+      day.date,
+      `${day.sessions}`,
+      `${(day.distance / 1000).toFixed(2)} km`,
+      formatDuration(day.duration),
+      `${day.flyers}`,
+    ])
+  );
+
+  yPosition += 10;
+
+  // Session summary table
+  if (yPosition > pageHeight - 40) {
+    pdf.addPage();
+    yPosition = MARGIN;
+  }
+
+  pdf.setFontSize(14);
+  pdf.setTextColor(16, 185, 129);
+  pdf.text('Sesije', MARGIN, yPosition);
+  yPosition += 8;
+
+  const showWorker = data.subjectLabel !== 'Radnik';
+
+  drawTable(
+    pdf,
+    yPosition,
+    [
+      { label: 'Datum', x: MARGIN },
+      { label: showWorker ? 'Radnik' : 'Teren', x: 45 },
+      { label: 'Vrijeme', x: 95 },
+      { label: 'Trajanje', x: 125 },
+      { label: 'Udaljenost', x: 150 },
+      { label: 'Letaka', x: 175 },
+    ],
+    summaries.map(s => [
+      s.start.toLocaleDateString('hr-HR'),
+      (showWorker ? s.session.workerName : s.territory?.name || '-').slice(0, 28),
+      `${s.start.toLocaleTimeString('hr-HR', { hour: '2-digit', minute: '2-digit' })}-${
+        s.end?.toLocaleTimeString('hr-HR', { hour: '2-digit', minute: '2-digit' }) || '...'
+      }`,
+      s.stats.durationFormatted,
+      `${s.stats.totalDistanceKm.toFixed(2)} km`,
+      `${s.session.flyerCount || '-'}`,
+    ])
+  );
+
+  // Route thumbnails, 2 per row
+  if (summaries.length > 0) {
+    pdf.addPage();
+    yPosition = MARGIN;
+
+    pdf.setFontSize(14);
+    pdf.setTextColor(16, 185, 129);
+    pdf.text('Rute', MARGIN, yPosition);
+    yPosition += 8;
+
+    const cardWidth = (pageWidth - MARGIN * 2 - 10) / 2;
+    const thumbnailHeight = 45;
+    const cardHeight = thumbnailHeight + 20;
+
+    summaries.forEach((s, index) => {
+      const column = index % 2;
+      if (column === 0 && index > 0) {
+        yPosition += cardHeight;
+      }
+      if (column === 0 && yPosition + cardHeight > pageHeight - MARGIN) {
+        pdf.addPage();
+        yPosition = MARGIN;
+      }
+
+      const x = MARGIN + column * (cardWidth + 10);
+      pdf.setFontSize(10);
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(
+        `${s.start.toLocaleString('hr-HR')} - ${showWorker ? s.session.workerName : s.territory?.name || '-'}`.slice(0, 48),
+        x,
+        yPosition
+      );
+
+      drawRouteThumbnail(pdf, s, x, yPosition + 2, cardWidth, thumbnailHeight);
+
+      pdf.setFontSize(8);
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(
+        `${s.stats.totalDistanceKm.toFixed(2)} km | ${s.stats.durationFormatted} | ${s.stats.averageSpeedKmh.toFixed(1)} km/h | ${s.locations.length} točaka`,
+        x,
+        yPosition + thumbnailHeight + 7
+      );
+    });
+  }
+
+  // Footer on every page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFontSize(9);
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(
+      `Generirano: ${new Date().toLocaleString('hr-HR')} | Stranica ${page}/${pageCount}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  const filename = `prizma-izvjestaj-${data.subjectName.replace(/\s+/g, '-')}-${data.dateFrom || 'pocetak'}-${data.dateTo || 'danas'}.pdf`;
+  pdf.save(filename);
+}
@@ -0,0 +1,72 @@
+import type { UserRole } from '../types';
+
+export type Permission =
+  | 'viewLive'
+  | 'viewHistory'
+  | 'exportData'
+  | 'viewWorkers'
+  | 'manageWorkers'
+  | 'manageTerritories'
+  | 'updateSessions'
+  | 'manageSessions'
+  | 'autoCloseSessions'
+  | 'viewAuditLog'
+  | 'viewAnalytics'
+  | 'viewReconciliation'
+  | 'viewLiveAlerts';
+
+export const ROLES: UserRole[] = ['admin', 'dispatcher', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  dispatcher: 'Dispečer',
+  viewer: 'Klijent',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'viewLive',
+    'viewHistory',
+    'exportData',
+    'viewWorkers',
+    'manageWorkers',
+    'manageTerritories',
+    'updateSessions',
+    'manageSessions',
+    'autoCloseSessions',
+    'viewAuditLog',
+    'viewAnalytics',
+    'viewReconciliation',
+    'viewLiveAlerts',
+  ],
+  dispatcher: [
+    'viewLive',
+    'viewHistory',
+    'exportData',
+    'viewWorkers',
+    'updateSessions',
+    'manageSessions',
+    'autoCloseSessions',
+    'viewAnalytics',
+    'viewReconciliation',
+    'viewLiveAlerts',
+  ],
+  viewer: [
+    'viewLive',
+    'viewHistory',
+    'exportData',
+  ],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function hasPermission(role: UserRole | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Viewers are limited to their assigned territories, everyone else sees all
+export function isTerritoryRestricted(role: UserRole | null): boolean {
+  return role === 'viewer';
+}
@@ -0,0 +1,118 @@
+import type { Session, Territory } from '../types';
+import { escapeCsv } from './sessionExport';
+import { downloadBlob } from './download';
+
+export type ReconciliationStatus = 'no_sessions' | 'no_plan' | 'in_progress' | 'delivered' | 'over_delivered';
+
+export interface TerritoryReconciliation {
+  territory: Territory;
+  sessions: Session[];
+  planned: number | null;
+  distributed: number;
+  remaining: number | null;
+  overDelivered: number;
+  status: ReconciliationStatus;
+}
+
+export interface ReconciliationTotals {
+  planned: number;
+  distributed: number;
+  remaining: number;
+  overDelivered: number;
+  withoutSessions: number;
+}
+
+export const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  no_sessions: 'Bez sesija',
+  no_plan: 'Bez plana',
+  in_progress: 'U tijeku',
+  delivered: 'Podijeljeno',
+  over_delivered: 'Višak',
+};
+
+export const NO_CAMPAIGN_LABEL = 'Bez kampanje';
+
+// Campaigns are the KML folders territories were imported from
+export function getCampaigns(territories: Territory[]): string[] {
+  return Array.from(new Set(territories.map(t => t.folder || '')))
+    .sort((a, b) => a.localeCompare(b, 'hr'));
+}
+
+function getStatus(planned: number | null, distributed: number, sessionCount: number): ReconciliationStatus {
+  if (sessionCount === 0) return 'no_sessions';
+  if (planned === null) return 'no_plan';
+  if (distributed > planned) return 'over_delivered';
+  if (distributed === planned) return 'delivered';
+  return 'in_progress';
+}
+
+export function reconcileTerritories(territories: Territory[], sessions: Session[]): TerritoryReconciliation[] {
+  const sessionsByTerritory = new Map<string, Session[]>();
+  sessions.forEach(session => {
+    if (!session.territoryId) return;
+    const list = sessionsByTerritory.get(session.territoryId) || [];
+    list.push(session);
+    sessionsByTerritory.set(session.territoryId, list);
+  });
+
+  return territories.map(territory => {
+    const territorySessions = sessionsByTerritory.get(territory.id) || [];
+    const planned = territory.flyerCount ?? null;
+    const distributed = territorySessions.reduce((sum, s) => sum + (s.flyerCount || 0), 0);
+
+    return {
+      territory,
+      sessions: territorySessions,
+      planned,
+      distributed,
+      remaining: planned !== null ? Math.max(0, planned - distributed) : null,
+      overDelivered: planned !== null ? Math.max(0, distributed - planned) : 0,
+      status: getStatus(planned, distributed, territorySessions.length),
+    };
+  });
+}
+
+export function sumReconciliation(rows: TerritoryReconciliation[]): ReconciliationTotals {
+  return rows.reduce<ReconciliationTotals>((totals, row) => ({
+    planned: totals.planned + (row.planned || 0),
+    distributed: totals.distributed + row.distributed,
+    remaining: totals.remaining + (row.remaining || 0),
+    overDelivered: totals.overDelivered + row.overDelivered,
+    withoutSessions: totals.withoutSessions + (row.status === 'no_sessions' ? 1 : 0),
+  }), { planned: 0, distributed: 0, remaining: 0, overDelivered: 0, withoutSessions: 0 });
+}
+
+export function exportReconciliationToCSV(
+  rows: TerritoryReconciliation[],
+  dateFrom: string,
+  dateTo: string
+): void {
+  const totals = sumReconciliation(rows);
+  const lines = [
+    ['Kampanja', 'Teren', 'Planirano', 'Podijeljeno', 'Preostalo', 'Višak', 'Sesije', 'Status'].join(';'),
+    ...rows.map(row => [
+      row.territory.folder || NO_CAMPAIGN_LABEL,
+      row.territory.name,
+      row.planned !== null ? `${row.planned}` : '',
+      `${row.distributed}`,
+      row.remaining !== null ? `${row.remaining}` : '',
+      `${row.overDelivered}`,
+      `${row.sessions.length}`,
+      RECONCILIATION_STATUS_LABELS[row.status],
+    ].map(escapeCsv).join(';')),
+    [
+      'Ukupno',
+      '',
+      `${totals.planned}`,
+      `${totals.distributed}`,
+      `${totals.remaining}`,
+      `${totals.overDelivered}`,
+      `${rows.reduce((sum, row) => sum + row.sessions.length, 0)}`,
+      '',
+    ].map(escapeCsv).join(';'),
+  ];
+
+  const period = `${dateFrom || 'pocetak'}_${dateTo || 'danas'}`;
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `prizma-obracun-letaka-${period}.csv`);
+}
@@ -0,0 +1,67 @@
+import type { LocationPoint } from '../types';
+import { getPointTimeMs } from './statistics';
+
+export const REPLAY_SPEEDS = [1, 5, 10, 30, 60];
+export const REPLAY_TICK_MS = 100;
+
+export interface ReplayFrame {
+  index: number; // last point already reached
+  position: [number, number];
+  point: LocationPoint;
+  // Synthetic point at the interpolated position, for drawing the partial segment
+  interpolated: LocationPoint;
+}
+
+export function getReplayBounds(locations: LocationPoint[]): { startMs: number; endMs: number } {
+  if (locations.length === 0) return { startMs: 0, endMs: 0 };
+  return {
+    startMs: getPointTimeMs(locations[0]),
+    endMs: getPointTimeMs(locations[locations.length - 1]),
+  };
+}
+
+function findLastIndexAtOrBefore(locations: LocationPoint[], timeMs: number): number {
+  let low = 0;
+  let high = locations.length - 1;
+  let result = 0;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (getPointTimeMs(locations[mid]) <= timeMs) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+export function getReplayFrame(locations: LocationPoint[], timeMs: number): ReplayFrame | null {
+  if (locations.length === 0) return null;
+
+  const index = findLastIndexAtOrBefore(locations, timeMs);
+  const point = locations[index];
+  const next = locations[index + 1];
+
+  let latitude = point.latitude;
+  let longitude = point.longitude;
+
+  if (next) {
+    const fromMs = getPointTimeMs(point);
+    const toMs = getPointTimeMs(next);
+    if (toMs > fromMs) {
+      const t = Math.min(1, Math.max(0, (timeMs - fromMs) / (toMs - fromMs)));
+      latitude += (next.latitude - point.latitude) * t;
+      longitude += (next.longitude - point.longitude) * t;
+    }
+  }
+
+  return {
+    index,
+    position: [latitude, longitude],
+    point,
+    interpolated: { ...point, latitude, longitude, timestampMs: timeMs },
+  };
+}
@@ -0,0 +1,172 @@
+import type { Session, Territory, LocationPoint } from '../types';
+import { getPointTimeMs } from './statistics';
+import { parseTerritoryBoundary } from './geometry';
+import { downloadBlob } from './download';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// KML colours are aabbggrr
+function toKmlColor(hex: string, alpha: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return `${alpha}81b910`;
+  const [, r, g, b] = match;
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+function toIsoTime(point: LocationPoint): string | null {
+  const timeMs = getPointTimeMs(point);
+  return timeMs > 0 ? new Date(timeMs).toISOString() : null;
+}
+
+function getRouteFilename(session: Session, extension: string): string {
+  return `prizma-sesija-${session.workerName.replace(/\s+/g, '-')}-${
+    session.startTime?.toDate?.()?.toLocaleDateString('hr-HR').replace(/\./g, '-') || 'unknown'
+  }.${extension}`;
+}
+
+function getRouteName(session: Session): string {
+  const startDate = session.startTime?.toDate?.()?.toLocaleString('hr-HR') || '';
+  return `${session.workerName} ${startDate}`.trim();
+}
+
+// GPX 1.1 track; speed uses Garmin's TrackPointExtension, accuracy has no
+// standard element so it goes into our own namespace
+export function buildGPX(session: Session, locations: LocationPoint[]): string {
+  const trackPoints = locations.map(point => {
+    const time = toIsoTime(point);
+    return [
+      `      <trkpt lat="${point.latitude}" lon="${point.longitude}">`,
+      time ? `        <time>${time}</time>` : null,
+      '        <extensions>',
+      '          <gpxtpx:TrackPointExtension>',
+      `            <gpxtpx:speed>${(point.speed || 0).toFixed(2)}</gpxtpx:speed>`,
+      '          </gpxtpx:TrackPointExtension>',
+      `          <prizma:accuracy>${(point.accuracy || 0).toFixed(1)}</prizma:accuracy>`,
+      '        </extensions>',
+      '      </trkpt>',
+    ].filter(line => line !== null).join('\n');
+  });
+
+  const startTime = locations.length > 0 ? toIsoTime(locations[0]) : null;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Prizma Tracker"',
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"',
+    '  xmlns:prizma="urn:prizma-tracker:gpx:1"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${escapeXml(getRouteName(session))}</name>`,
+    startTime ? `    <time>${startTime}</time>` : null,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(getRouteName(session))}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].filter(line => line !== null).join('\n');
+}
+
+// KML with the route as a LineString, a timed gx:Track carrying speed and
+// accuracy as ExtendedData, and the territory polygon when there is one
+export function buildKML(session: Session, locations: LocationPoint[], territory: Territory | null): string {
+  const lineCoordinates = locations
+    .map(point => `${point.longitude},${point.latitude},0`)
+    .join(' ');
+
+  const trackWhens = locations
+    .map(point => toIsoTime(point))
+    .map(time => `          <when>${time || ''}</when>`);
+  const trackCoords = locations
+    .map(point => `          <gx:coord>${point.longitude} ${point.latitude} 0</gx:coord>`);
+  const speedValues = locations
+    .map(point => `              <gx:value>${((point.speed || 0) * 3.6).toFixed(1)}</gx:value>`);
+  const accuracyValues = locations
+    .map(point => `              <gx:value>${(point.accuracy || 0).toFixed(1)}</gx:value>`);
+
+  const boundary = territory ? parseTerritoryBoundary(territory.boundaryGeoJSON) : [];
+  const territoryColor = territory?.color || '#10B981';
+  const territoryPlacemark = territory && boundary.length > 0 ? [
+    '    <Placemark>',
+    `      <name>${escapeXml(territory.name)}</name>`,
+    '      <styleUrl>#territory</styleUrl>',
+    '      <Polygon>',
+    '        <outerBoundaryIs>',
+    '          <LinearRing>',
+    `            <coordinates>${boundary.map(([lat, lng]) => `${lng},${lat},0`).join(' ')}</coordinates>`,
+    '          </LinearRing>',
+    '        </outerBoundaryIs>',
+    '      </Polygon>',
+    '    </Placemark>',
+  ] : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(getRouteName(session))}</name>`,
+    '    <Style id="route">',
+    '      <LineStyle><color>fff6823b</color><width>4</width></LineStyle>',
+    '    </Style>',
+    '    <Style id="territory">',
+    `      <LineStyle><color>${toKmlColor(territoryColor, 'ff')}</color><width>2</width></LineStyle>`,
+    `      <PolyStyle><color>${toKmlColor(territoryColor, '33')}</color></PolyStyle>`,
+    '    </Style>',
+    '    <Schema id="prizmaPoint">',
+    '      <gx:SimpleArrayField name="speed" type="float"><displayName>Brzina (km/h)</displayName></gx:SimpleArrayField>',
+    '      <gx:SimpleArrayField name="accuracy" type="float"><displayName>Točnost (m)</displayName></gx:SimpleArrayField>',
+    '    </Schema>',
+    ...territoryPlacemark,
+    '    <Placemark>',
+    '      <name>Ruta</name>',
+    '      <styleUrl>#route</styleUrl>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${lineCoordinates}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '    <Placemark>',
+    '      <name>Vremenski trag</name>',
+    '      <styleUrl>#route</styleUrl>',
+    '      <gx:Track>',
+    ...trackWhens,
+    ...trackCoords,
+    '        <ExtendedData>',
+    '          <SchemaData schemaUrl="#prizmaPoint">',
+    '            <gx:SimpleArrayData name="speed">',
+    ...speedValues,
+    '            </gx:SimpleArrayData>',
+    '            <gx:SimpleArrayData name="accuracy">',
+    ...accuracyValues,
+    '            </gx:SimpleArrayData>',
+    '          </SchemaData>',
+    '        </ExtendedData>',
+    '      </gx:Track>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function exportSessionGPX(session: Session, locations: LocationPoint[]): void {
+  const blob = new Blob([buildGPX(session, locations)], { type: 'application/gpx+xml' });
+  downloadBlob(blob, getRouteFilename(session, 'gpx'));
+}
+
+export function exportSessionKML(session: Session, locations: LocationPoint[], territory: Territory | null): void {
+  const blob = new Blob([buildKML(session, locations, territory)], { type: 'application/vnd.google-earth.kml+xml' });
+  downloadBlob(blob, getRouteFilename(session, 'kml'));
+}
@@ -0,0 +1,113 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import type { FilterState } from '../types';
+import { EMPTY_FILTERS } from './sessionQuery';
+
+export type AppView = 'live' | 'history' | 'workers' | 'territories' | 'audit' | 'analytics' | 'reconciliation';
+
+export interface AppRoute {
+  view: AppView;
+  id: string | null; // session id on /history, territory id on /territories
+  search: string;
+}
+
+const VIEWS: AppView[] = ['live', 'history', 'workers', 'territories', 'audit', 'analytics', 'reconciliation'];
+const NAVIGATE_EVENT = 'prizma:navigate';
+
+export const DEFAULT_PATH = '/live';
+
+export function parseRoute(pathname: string, search: string): AppRoute | null {
+  const [view, id] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (!VIEWS.includes(view as AppView)) return null;
+
+  return { view: view as AppView, id: id || null, search };
+}
+
+export function buildPath(view: AppView, id: string | null = null, params?: URLSearchParams): string {
+  const path = id ? `/${view}/${encodeURIComponent(id)}` : `/${view}`;
+  const search = params?.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// Entries pushed by the app are marked, so closing a panel can go back
+// instead of leaving the portal when the page was opened from a shared link
+export function navigate(path: string, options: { replace?: boolean } = {}): void {
+  if (path === window.location.pathname + window.location.search) return;
+
+  if (options.replace) {
+    window.history.replaceState(window.history.state, '', path);
+  } else {
+    window.history.pushState({ inApp: true }, '', path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+export function navigateBack(fallbackPath: string): void {
+  if (window.history.state?.inApp) {
+    window.history.back();
+  } else {
+    navigate(fallbackPath, { replace: true });
+  }
+}
+
+function subscribe(callback: () => void): () => void {
+  window.addEventListener('popstate', callback);
+  window.addEventListener(NAVIGATE_EVENT, callback);
+  return () => {
+    window.removeEventListener('popstate', callback);
+    window.removeEventListener(NAVIGATE_EVENT, callback);
+  };
+}
+
+function getLocation(): string {
+  return window.location.pathname + window.location.search;
+}
+
+export function useRoute(): AppRoute | null {
+  const location = useSyncExternalStore(subscribe, getLocation);
+
+  return useMemo(() => {
+    const url = new URL(location, window.location.origin);
+    return parseRoute(url.pathname, url.search);
+  }, [location]);
+}
+
+const STATUS_VALUES: FilterState['status'][] = ['all', 'active', 'completed', 'auto_completed'];
+
+// A territory the viewer can't access is dropped, since the URL is user input
+export function filtersFromSearch(
+  search: string,
+  canAccessTerritory: (territoryId: string) => boolean = () => true
+): FilterState {
+  const params = new URLSearchParams(search);
+  const status = params.get('status') as FilterState['status'] | null;
+  const territoryId = params.get('territory') || '';
+
+  return {
+    workerId: params.get('worker') || '',
+    territoryId: territoryId && canAccessTerritory(territoryId) ? territoryId : '',
+    status: status && STATUS_VALUES.includes(status) ? status : EMPTY_FILTERS.status,
+    dateFrom: params.get('from') || '',
+    dateTo: params.get('to') || '',
+  };
+}
+
+export function filtersToParams(filters: FilterState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.workerId) params.set('worker', filters.workerId);
+  if (filters.territoryId) params.set('territory', filters.territoryId);
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.dateFrom) params.set('from', filters.dateFrom);
+  if (filters.dateTo) params.set('to', filters.dateTo);
+  return params;
+}
+
+export function workerIdsFromSearch(search: string): string[] {
+  const workers = new URLSearchParams(search).get('workers');
+  return workers ? workers.split(',').filter(Boolean) : [];
+}
+
+export function workerIdsToParams(workerIds: string[]): URLSearchParams {
+  const params = new URLSearchParams();
+  if (workerIds.length > 0) params.set('workers', workerIds.join(','));
+  return params;
+}
@@ -0,0 +1,142 @@
+import { doc, getDoc, updateDoc, arrayUnion, deleteField, Timestamp } from 'firebase/firestore';
+import { auth, db } from '../config/firebase';
+import type { Session, SessionEdit, SessionEditAction, SessionNote } from '../types';
+import { logAudit, diffValues } from './auditLog';
+
+export interface SessionCorrection {
+  territoryId: string | null;
+  flyerCount: number | null;
+}
+
+export const SESSION_EDIT_LABELS: Record<SessionEditAction, string> = {
+  ended: 'Ručno završena',
+  reopened: 'Ponovno otvorena',
+  corrected: 'Ispravljeni podaci',
+  note_added: 'Dodana bilješka',
+};
+
+// arrayUnion can't hold serverTimestamp, so history entries use the client clock
+function createEdit(action: SessionEditAction, details: Omit<SessionEdit, 'action' | 'by' | 'at'> = {}): SessionEdit {
+  return {
+    action,
+    by: auth.currentUser?.email || null,
+    at: Timestamp.now(),
+    ...details,
+  };
+}
+
+async function getWorkerActiveSessionId(workerId: string): Promise<string | null> {
+  const workerDoc = await getDoc(doc(db, 'workers', workerId));
+  return workerDoc.data()?.activeSessionId || null;
+}
+
+export async function endSession(session: Session, reason: string): Promise<void> {
+  const now = new Date();
+
+  await updateDoc(doc(db, 'sessions', session.id), {
+    status: 'completed',
+    endTime: now,
+    manualEndReason: reason,
+    editHistory: arrayUnion(createEdit('ended', { reason })),
+  });
+
+  // Only clear the worker's pointer if it still refers to this session
+  if (session.workerId && await getWorkerActiveSessionId(session.workerId) === session.id) {
+    await updateDoc(doc(db, 'workers', session.workerId), {
+      activeSessionId: null
+    });
+  }
+
+  await logAudit({
+    action: 'session_updated',
+    targetType: 'session',
+    targetId: session.id,
+    description: `Ručno završena sesija ${session.workerName}: ${reason}`,
+    before: { status: session.status, endTime: null },
+    after: { status: 'completed', endTime: now, manualEndReason: reason },
+  });
+
+  console.log(`⏹️ Session ${session.id} ended manually`);
+}
+
+export async function reopenSession(session: Session): Promise<void> {
+  if (session.workerId) {
+    const activeSessionId = await getWorkerActiveSessionId(session.workerId);
+    if (activeSessionId && activeSessionId !== session.id) {
+      throw new Error(`Worker ${session.workerId} already has active session ${activeSessionId}`);
+    }
+  }
+
+  await updateDoc(doc(db, 'sessions', session.id), {
+    status: 'active',
+    endTime: null,
+    reopenedAt: new Date(),
+    autoClosedReason: deleteField(),
+    manualEndReason: deleteField(),
+    editHistory: arrayUnion(createEdit('reopened')),
+  });
+
+  if (session.workerId) {
+    await updateDoc(doc(db, 'workers', session.workerId), {
+      activeSessionId: session.id
+    });
+  }
+
+  await logAudit({
+    action: 'session_updated',
+    targetType: 'session',
+    targetId: session.id,
+    description: `Ponovno otvorena sesija ${session.workerName}`,
+    before: { status: session.status, endTime: session.endTime?.toDate?.() || null },
+    after: { status: 'active', endTime: null },
+  });
+
+  console.log(`↩️ Session ${session.id} reopened`);
+}
+
+export async function correctSession(session: Session, correction: SessionCorrection): Promise<void> {
+  const { before, after } = diffValues(
+    { territoryId: session.territoryId, flyerCount: session.flyerCount },
+    { ...correction }
+  );
+  if (Object.keys(after).length === 0) return;
+
+  await updateDoc(doc(db, 'sessions', session.id), {
+    ...after,
+    // The geofence summary belongs to the old territory and is recomputed
+    ...('territoryId' in after ? { geofenceViolationCount: deleteField(), geofenceOutsideMs: deleteField() } : {}),
+    editHistory: arrayUnion(createEdit('corrected', { before, after })),
+  });
+
+  await logAudit({
+    action: 'session_updated',
+    targetType: 'session',
+    targetId: session.id,
+    description: `Ispravljena sesija ${session.workerName}`,
+    before,
+    after,
+  });
+
+  console.log(`✏️ Session ${session.id} corrected`);
+}
+
+export async function addSessionNote(session: Session, text: string): Promise<void> {
+  const note: SessionNote = {
+    text,
+    author: auth.currentUser?.email || null,
+    createdAt: Timestamp.now(),
+  };
+
+  await updateDoc(doc(db, 'sessions', session.id), {
+    notes: arrayUnion(note),
+    editHistory: arrayUnion(createEdit('note_added')),
+  });
+
+  await logAudit({
+    action: 'session_updated',
+    targetType: 'session',
+    targetId: session.id,
+    description: `Bilješka na sesiji ${session.workerName}`,
+    after: { note: text },
+  });
+}
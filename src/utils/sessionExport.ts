@@ -0,0 +1,181 @@
+import type { Session, Territory } from '../types';
+import { formatDuration } from './statistics';
+import { downloadBlob } from './download';
+
+export type ExportColumnKey =
+  | 'worker'
+  | 'territory'
+  | 'start'
+  | 'end'
+  | 'duration'
+  | 'distance'
+  | 'averageSpeed'
+  | 'points'
+  | 'flyers';
+
+export type ExportHeaders = Record<ExportColumnKey, string>;
+
+export const EXPORT_COLUMNS: ExportColumnKey[] = [
+  'worker',
+  'territory',
+  'start',
+  'end',
+  'duration',
+  'distance',
+  'averageSpeed',
+  'points',
+  'flyers',
+];
+
+export const DEFAULT_EXPORT_HEADERS: ExportHeaders = {
+  worker: 'Radnik',
+  territory: 'Teren',
+  start: 'Početak',
+  end: 'Kraj',
+  duration: 'Trajanje',
+  distance: 'Udaljenost (km)',
+  averageSpeed: 'Prosječna brzina (km/h)',
+  points: 'GPS točaka',
+  flyers: 'Letaka',
+};
+
+const HEADERS_STORAGE_KEY = 'prizma_export_headers';
+
+export function loadExportHeaders(): ExportHeaders {
+  try {
+    const stored = localStorage.getItem(HEADERS_STORAGE_KEY);
+    if (!stored) return DEFAULT_EXPORT_HEADERS;
+    return { ...DEFAULT_EXPORT_HEADERS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading export headers:', error);
+    return DEFAULT_EXPORT_HEADERS;
+  }
+}
+
+export function saveExportHeaders(headers: ExportHeaders): void {
+  try {
+    localStorage.setItem(HEADERS_STORAGE_KEY, JSON.stringify(headers));
+  } catch (error) {
+    console.error('Error saving export headers:', error);
+  }
+}
+
+interface SessionRow {
+  worker: string;
+  territory: string;
+  start: Date | null;
+  end: Date | null;
+  durationSeconds: number | null;
+  distanceKm: number;
+  averageSpeedKmh: number;
+  points: number;
+  flyers: number | null;
+}
+
+function buildRows(sessions: Session[], territories: Map<string, Territory>): SessionRow[] {
+  return sessions.map(session => {
+    const start: Date | null = session.startTime?.toDate?.() || null;
+    const end: Date | null = session.endTime?.toDate?.() || null;
+
+    return {
+      worker: session.workerName,
+      territory: session.territoryId ? territories.get(session.territoryId)?.name || '' : '',
+      start,
+      end,
+      durationSeconds: start && end ? Math.floor((end.getTime() - start.getTime()) / 1000) : null,
+      distanceKm: (session.totalDistance || 0) / 1000,
+      averageSpeedKmh: (session.averageSpeed || 0) * 3.6,
+      points: session.pointsCount || 0,
+      flyers: session.flyerCount,
+    };
+  });
+}
+
+function formatNumber(value: number, fractionDigits: number): string {
+  return value.toLocaleString('hr-HR', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+export function escapeCsv(value: string): string {
+  return /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function getExportFilename(extension: string): string {
+  const date = new Date().toLocaleDateString('hr-HR').replace(/\.\s*/g, '-').replace(/-$/, '');
+  return `prizma-sesije-${date}.${extension}`;
+}
+
+// Croatian Excel expects ';' as separator and decimal commas
+export function exportSessionsToCSV(
+  sessions: Session[],
+  territories: Map<string, Territory>,
+  headers: ExportHeaders = DEFAULT_EXPORT_HEADERS
+): void {
+  const rows = buildRows(sessions, territories);
+
+  const lines = [
+    EXPORT_COLUMNS.map(key => escapeCsv(headers[key])).join(';'),
+    ...rows.map(row => [
+      row.worker,
+      row.territory,
+      row.start?.toLocaleString('hr-HR') || '',
+      row.end?.toLocaleString('hr-HR') || '',
+      row.durationSeconds !== null ? formatDuration(row.durationSeconds) : '',
+      formatNumber(row.distanceKm, 2),
+      formatNumber(row.averageSpeedKmh, 1),
+      String(row.points),
+      row.flyers !== null && row.flyers !== undefined ? String(row.flyers) : '',
+    ].map(escapeCsv).join(';')),
+  ];
+
+  // BOM so Excel opens the file as UTF-8 (č, ć, š, ž, đ)
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, getExportFilename('csv'));
+}
+
+// Excel has no time zones; ExcelJS writes dates as UTC, so shift them to show local time
+function toExcelDate(date: Date | null): Date | null {
+  return date ? new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000) : null;
+}
+
+export async function exportSessionsToXLSX(
+  sessions: Session[],
+  territories: Map<string, Territory>,
+  headers: ExportHeaders = DEFAULT_EXPORT_HEADERS
+): Promise<void> {
+  // Loaded on demand, it's the largest dependency and only needed here
+  const { Workbook } = await import('exceljs');
+  const rows = buildRows(sessions, territories);
+
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet('Sesije');
+
+  sheet.columns = EXPORT_COLUMNS.map(key => ({
+    header: headers[key],
+    width: Math.max(headers[key].length + 2, key === 'start' || key === 'end' ? 18 : 12),
+  }));
+
+  rows.forEach(row => sheet.addRow([
+    row.worker,
+    row.territory,
+    toExcelDate(row.start),
+    toExcelDate(row.end),
+    // Fraction of a day, rendered as [h]:mm:ss by Excel
+    row.durationSeconds !== null ? row.durationSeconds / 86400 : null,
+    Number(row.distanceKm.toFixed(2)),
+    Number(row.averageSpeedKmh.toFixed(1)),
+    row.points,
+    row.flyers,
+  ]));
+
+  // Column formats skip the header row, which holds plain text
+  sheet.getColumn(3).numFmt = 'dd.mm.yyyy. hh:mm';
+  sheet.getColumn(4).numFmt = 'dd.mm.yyyy. hh:mm';
+  sheet.getColumn(5).numFmt = '[h]:mm:ss';
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  downloadBlob(blob, getExportFilename('xlsx'));
+}
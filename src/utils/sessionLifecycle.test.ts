@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runTransaction, updateDoc, type Timestamp } from 'firebase/firestore';
+import type { Session } from '../types';
+import { DEFAULT_LIFECYCLE_RULES, evaluateSession, findSessionsToClose, runAutoClose } from './sessionLifecycle';
+
+vi.mock('firebase/firestore', () => ({ doc: vi.fn(), updateDoc: vi.fn(), runTransaction: vi.fn() }));
+vi.mock('../config/firebase', () => ({ db: {}, auth: {} }));
+vi.mock('./auditLog', () => ({ logAudit: vi.fn() }));
+
+const NOW = new Date('2026-03-10T12:00:00');
+const MINUTE_MS = 60 * 1000;
+
+function minutesAgo(minutes: number): Timestamp {
+  const date = new Date(NOW.getTime() - minutes * MINUTE_MS);
+  return { toDate: () => date } as Timestamp;
+}
+
+function createSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-1',
+    workerId: 'worker-1',
+    workerName: 'Ana',
+    territoryId: null,
+    flyerCount: null,
+    startTime: minutesAgo(60),
+    endTime: null,
+    status: 'active',
+    totalDistance: 0,
+    averageSpeed: 0,
+    pointsCount: 10,
+    lastLocationUpdate: minutesAgo(1),
+    ...overrides,
+  };
+}
+
+describe('evaluateSession', () => {
+  it('leaves a healthy active session open', () => {
+    expect(evaluateSession(createSession(), DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('ignores sessions that are not active', () => {
+    const session = createSession({ status: 'completed', lastLocationUpdate: minutesAgo(120) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('reports no_points before idle when the session never sent a point', () => {
+    const session = createSession({ pointsCount: 0, lastLocationUpdate: minutesAgo(120) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)?.reason).toBe('no_points');
+  });
+
+  it('waits noPointsMinutes before closing a session without points', () => {
+    const session = createSession({ pointsCount: 0, startTime: minutesAgo(5), lastLocationUpdate: undefined });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('closes a session running longer than maxDurationHours', () => {
+    const session = createSession({ startTime: minutesAgo(13 * 60) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)?.reason).toBe('max_duration');
+  });
+
+  it('closes a session without GPS updates for idleMinutes', () => {
+    const session = createSession({ lastLocationUpdate: minutesAgo(31) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)?.reason).toBe('idle');
+  });
+
+  it('keeps a session idle for less than idleMinutes open', () => {
+    const session = createSession({ lastLocationUpdate: minutesAgo(29) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('gives a reopened session a fresh idle grace period', () => {
+    const session = createSession({ lastLocationUpdate: minutesAgo(120), reopenedAt: minutesAgo(5) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('gives a reopened session without points a fresh no_points grace period', () => {
+    const session = createSession({ pointsCount: 0, lastLocationUpdate: undefined, reopenedAt: minutesAgo(5) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('measures max_duration from the reopen time', () => {
+    const session = createSession({ startTime: minutesAgo(20 * 60), reopenedAt: minutesAgo(5) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)).toBeNull();
+  });
+
+  it('closes a reopened session that runs maxDurationHours past the reopen', () => {
+    const session = createSession({ startTime: minutesAgo(30 * 60), reopenedAt: minutesAgo(13 * 60) });
+    expect(evaluateSession(session, DEFAULT_LIFECYCLE_RULES, NOW)?.reason).toBe('max_duration');
+  });
+});
+
+describe('findSessionsToClose', () => {
+  it('returns only the sessions that match a rule', () => {
+    const sessions = [
+      createSession({ id: 'healthy' }),
+      createSession({ id: 'idle', lastLocationUpdate: minutesAgo(45) }),
+    ];
+    expect(findSessionsToClose(sessions, DEFAULT_LIFECYCLE_RULES, NOW).map(c => c.session.id)).toEqual(['idle']);
+  });
+});
+
+describe('runAutoClose', () => {
+  const transaction = { get: vi.fn(), update: vi.fn() };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.mocked(runTransaction).mockImplementation((_db, update) => update(transaction as never));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  function workerWithActiveSession(activeSessionId: string | null) {
+    transaction.get.mockResolvedValue({ data: () => ({ activeSessionId }) });
+  }
+
+  it('does nothing when the rules are disabled', async () => {
+    const session = createSession({ lastLocationUpdate: minutesAgo(120) });
+
+    await runAutoClose([session], { ...DEFAULT_LIFECYCLE_RULES, enabled: false });
+
+    expect(vi.mocked(updateDoc)).not.toHaveBeenCalled();
+  });
+
+  it('closes matching sessions when enabled', async () => {
+    const session = createSession({ lastLocationUpdate: minutesAgo(120) });
+
+    await runAutoClose([session], DEFAULT_LIFECYCLE_RULES);
+
+    expect(vi.mocked(updateDoc)).toHaveBeenCalledWith(undefined, expect.objectContaining({
+      status: 'auto_completed',
+      autoClosedReason: 'No GPS updates for 30+ minutes',
+    }));
+  });
+
+  it('clears the worker link to the closed session', async () => {
+    workerWithActiveSession('session-1');
+
+    await runAutoClose([createSession({ lastLocationUpdate: minutesAgo(120) })], DEFAULT_LIFECYCLE_RULES);
+
+    expect(transaction.update).toHaveBeenCalledWith(undefined, { activeSessionId: null });
+  });
+
+  it('keeps the worker linked to a session started since', async () => {
+    workerWithActiveSession('session-2');
+
+    await runAutoClose([createSession({ lastLocationUpdate: minutesAgo(120) })], DEFAULT_LIFECYCLE_RULES);
+
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+});
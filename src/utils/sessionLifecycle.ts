@@ -0,0 +1,162 @@
+import { doc, runTransaction, updateDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { Session, SessionStatus } from '../types';
+import { logAudit } from './auditLog';
+
+export type AutoCloseReason = 'no_points' | 'max_duration' | 'idle';
+
+export interface LifecycleRules {
+  enabled: boolean;
+  idleMinutes: number; // no GPS update for this long
+  maxDurationHours: number; // session has been running this long
+  noPointsMinutes: number; // session started but never sent a point
+}
+
+export interface AutoCloseCandidate {
+  session: Session;
+  reason: AutoCloseReason;
+  description: string;
+}
+
+export const DEFAULT_LIFECYCLE_RULES: LifecycleRules = {
+  enabled: true,
+  idleMinutes: 30,
+  maxDurationHours: 12,
+  noPointsMinutes: 10,
+};
+
+export const AUTO_CLOSE_CHECK_INTERVAL_MS = 60 * 1000;
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  active: '🟢 Aktivan',
+  completed: '✅ Završen',
+  auto_completed: '⏱️ Automatski zatvoren',
+};
+
+export const AUTO_CLOSE_REASON_LABELS: Record<AutoCloseReason, string> = {
+  no_points: 'Bez GPS točaka',
+  max_duration: 'Predugo trajanje',
+  idle: 'Bez GPS ažuriranja',
+};
+
+const RULES_STORAGE_KEY = 'prizma_lifecycle_rules';
+const MINUTE_MS = 60 * 1000;
+
+export function loadLifecycleRules(): LifecycleRules {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    if (!stored) return DEFAULT_LIFECYCLE_RULES;
+    return { ...DEFAULT_LIFECYCLE_RULES, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading lifecycle rules:', error);
+    return DEFAULT_LIFECYCLE_RULES;
+  }
+}
+
+export function saveLifecycleRules(rules: LifecycleRules): void {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Error saving lifecycle rules:', error);
+  }
+}
+
+function maxDefined(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.max(a, b);
+}
+
+// Checked from most to least specific, so a session that never sent a point
+// is reported as such rather than as idle
+export function evaluateSession(session: Session, rules: LifecycleRules, now: Date): AutoCloseCandidate | null {
+  if (session.status !== 'active') return null;
+
+  const nowMs = now.getTime();
+  const startMs = session.startTime?.toDate?.()?.getTime();
+  const reopenedMs = session.reopenedAt?.toDate?.()?.getTime();
+  // A reopened session gets a fresh grace period instead of closing again right away
+  const lastUpdateMs = maxDefined(session.lastLocationUpdate?.toDate?.()?.getTime(), reopenedMs);
+  const graceStartMs = maxDefined(startMs, reopenedMs);
+
+  if (session.pointsCount === 0 && graceStartMs !== undefined && nowMs - graceStartMs > rules.noPointsMinutes * MINUTE_MS) {
+    return {
+      session,
+      reason: 'no_points',
+      description: `No GPS points after ${rules.noPointsMinutes} minutes`,
+    };
+  }
+
+  // Measured from the reopen, otherwise reopening a long session closes it again on the next check
+  if (graceStartMs !== undefined && nowMs - graceStartMs > rules.maxDurationHours * 60 * MINUTE_MS) {
+    return {
+      session,
+      reason: 'max_duration',
+      description: `Session running for ${rules.maxDurationHours}+ hours`,
+    };
+  }
+
+  if (lastUpdateMs !== undefined && nowMs - lastUpdateMs > rules.idleMinutes * MINUTE_MS) {
+    return {
+      session,
+      reason: 'idle',
+      description: `No GPS updates for ${rules.idleMinutes}+ minutes`,
+    };
+  }
+
+  return null;
+}
+
+export function findSessionsToClose(sessions: Session[], rules: LifecycleRules, now: Date): AutoCloseCandidate[] {
+  return sessions
+    .map(session => evaluateSession(session, rules, now))
+    .filter((candidate): candidate is AutoCloseCandidate => candidate !== null);
+}
+
+export async function autoCloseSession(candidate: AutoCloseCandidate, now: Date): Promise<void> {
+  const { session, description } = candidate;
+
+  console.log(`Auto-closing session ${session.id}: ${description}`);
+
+  await updateDoc(doc(db, 'sessions', session.id), {
+    status: 'auto_completed',
+    endTime: now,
+    autoClosedReason: description
+  });
+
+  await logAudit({
+    action: 'session_auto_closed',
+    automatic: true,
+    targetType: 'session',
+    targetId: session.id,
+    description: `${session.workerName}: ${description}`,
+    before: { status: session.status, endTime: null },
+    after: { status: 'auto_completed', endTime: now, autoClosedReason: description },
+  });
+
+  // The worker may already have started a new session, which must stay linked
+  if (session.workerId) {
+    const workerRef = doc(db, 'workers', session.workerId);
+    await runTransaction(db, async transaction => {
+      const workerDoc = await transaction.get(workerRef);
+      if (workerDoc.data()?.activeSessionId === session.id) {
+        transaction.update(workerRef, { activeSessionId: null });
+      }
+    });
+  }
+
+  console.log(`Session ${session.id} auto-closed successfully`);
+}
+
+export async function runAutoClose(sessions: Session[], rules: LifecycleRules): Promise<void> {
+  if (!rules.enabled) return;
+
+  const now = new Date();
+  for (const candidate of findSessionsToClose(sessions, rules, now)) {
+    try {
+      await autoCloseSession(candidate, now);
+    } catch (error) {
+      console.error('Error auto-closing session:', error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { collection, query, orderBy, getDocs } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { Session, LocationPoint } from '../types';
+import { cacheService } from './cacheService';
+import { getPointTimeMs } from './statistics';
+
+export const PREFETCH_SESSION_COUNT = 3;
+
+const prefetching = new Set<string>();
+
+function isCompleted(session: Session): boolean {
+  return session.status !== 'active';
+}
+
+async function fetchSessionPoints(sessionId: string): Promise<LocationPoint[]> {
+  let locs: LocationPoint[];
+
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'locations', sessionId, 'points'),
+      orderBy('timestampMs', 'asc')
+    ));
+    locs = snapshot.docs.map(doc => doc.data()) as LocationPoint[];
+  } catch (error) {
+    console.error('Error loading session points, retrying by timestamp:', error);
+
+    const snapshot = await getDocs(query(
+      collection(db, 'locations', sessionId, 'points'),
+      orderBy('timestamp', 'asc')
+    ));
+    locs = snapshot.docs.map(doc => doc.data()) as LocationPoint[];
+  }
+
+  return locs.sort((a, b) => getPointTimeMs(a) - getPointTimeMs(b));
+}
+
+// Completed sessions never change, so their points are served from the
+// persistent cache as long as the session's pointsCount still matches
+export async function loadCompletedSessionLocations(sessionId: string, pointsCount: number): Promise<LocationPoint[]> {
+  const cached = await cacheService.loadCompletedSession(sessionId, pointsCount);
+  if (cached) {
+    console.log(`⚡ Loaded ${cached.length} points for session ${sessionId} from cache`);
+    return cached;
+  }
+
+  const locs = await fetchSessionPoints(sessionId);
+  console.log(`Loaded ${locs.length} points for session ${sessionId}`);
+
+  if (locs.length > 0) {
+    cacheService.saveSessionPoints(sessionId, locs, pointsCount);
+  }
+
+  return locs;
+}
+
+export async function loadSessionLocations(session: Session): Promise<LocationPoint[]> {
+  if (isCompleted(session)) {
+    return loadCompletedSessionLocations(session.id, session.pointsCount);
+  }
+
+  const locs = await fetchSessionPoints(session.id);
+  console.log(`Loaded ${locs.length} points for session ${session.id}`);
+  return locs;
+}
+
+export async function prefetchSessionLocations(sessions: Session[]): Promise<void> {
+  for (const session of sessions) {
+    if (!isCompleted(session) || prefetching.has(session.id)) continue;
+
+    prefetching.add(session.id);
+    try {
+      if (!(await cacheService.hasCompletedSession(session.id, session.pointsCount))) {
+        console.log(`📥 Prefetching route for session ${session.id}`);
+        const locs = await fetchSessionPoints(session.id);
+        if (locs.length > 0) {
+          await cacheService.saveSessionPoints(session.id, locs, session.pointsCount);
+        }
+      }
+    } catch (error) {
+      console.error(`Error prefetching session ${session.id}:`, error);
+    } finally {
+      prefetching.delete(session.id);
+    }
+  }
+}
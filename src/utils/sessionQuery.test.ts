@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Session } from '../types';
+import { EMPTY_FILTERS, getScopeGroups, matchesSessionFilters, splitTerritoryScope } from './sessionQuery';
+
+vi.mock('firebase/firestore', () => ({}));
+vi.mock('../config/firebase', () => ({ db: {} }));
+
+const session = {
+  id: 'session-1',
+  workerId: 'worker-1',
+  territoryId: 'territory-1',
+  status: 'completed',
+  startTime: { toDate: () => new Date('2026-03-10T09:00:00') },
+} as Session;
+
+describe('matchesSessionFilters', () => {
+  it('matches a session without filters', () => {
+    expect(matchesSessionFilters(session, EMPTY_FILTERS, null)).toBe(true);
+  });
+
+  it('rejects a session whose status no longer matches', () => {
+    expect(matchesSessionFilters(session, { ...EMPTY_FILTERS, status: 'active' }, null)).toBe(false);
+  });
+
+  it('rejects a session outside the territory scope', () => {
+    expect(matchesSessionFilters(session, EMPTY_FILTERS, ['territory-2'])).toBe(false);
+  });
+
+  it('keeps the territory scope when a territory filter is set', () => {
+    const filters = { ...EMPTY_FILTERS, territoryId: 'territory-1' };
+    expect(matchesSessionFilters(session, filters, ['territory-2'])).toBe(false);
+    expect(matchesSessionFilters(session, filters, ['territory-1'])).toBe(true);
+  });
+
+  it('checks the start date against whole days', () => {
+    expect(matchesSessionFilters(session, { ...EMPTY_FILTERS, dateFrom: '2026-03-10', dateTo: '2026-03-10' }, null)).toBe(true);
+    expect(matchesSessionFilters(session, { ...EMPTY_FILTERS, dateFrom: '2026-03-11' }, null)).toBe(false);
+  });
+});
+
+describe('splitTerritoryScope', () => {
+  it('keeps an unrestricted scope as a single unfiltered query', () => {
+    expect(splitTerritoryScope(null)).toEqual([null]);
+  });
+
+  it('splits a scope into groups of at most 30 territories', () => {
+    const scope = Array.from({ length: 65 }, (_, i) => `territory-${i}`);
+    const groups = splitTerritoryScope(scope);
+
+    expect(groups.map(group => group?.length)).toEqual([30, 30, 5]);
+    expect(groups.flat()).toEqual(scope);
+  });
+
+  it('queries once when a territory filter narrows the scope', () => {
+    const scope = Array.from({ length: 65 }, (_, i) => `territory-${i}`);
+    expect(getScopeGroups({ ...EMPTY_FILTERS, territoryId: 'territory-1' }, scope)).toEqual([null]);
+  });
+
+  it('queries nothing when a restricted viewer filters on a foreign territory', () => {
+    expect(getScopeGroups({ ...EMPTY_FILTERS, territoryId: 'foreign' }, ['territory-1'])).toEqual([]);
+  });
+
+  it('lets an unrestricted user filter on any territory', () => {
+    expect(getScopeGroups({ ...EMPTY_FILTERS, territoryId: 'any' }, null)).toEqual([null]);
+  });
+});
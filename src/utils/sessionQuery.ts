@@ -0,0 +1,237 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getDocs,
+  getCountFromServer,
+  onSnapshot,
+  type FirestoreError,
+  type Query,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type DocumentData,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { FilterState, Session } from '../types';
+
+export const SESSION_PAGE_SIZE = 25;
+
+// Firestore allows at most 30 values in an 'in' filter
+export const MAX_IN_FILTER_VALUES = 30;
+
+export type SessionQueryFilters = Partial<FilterState>;
+
+export interface SessionPage {
+  sessions: Session[];
+  lastDoc: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+export const EMPTY_FILTERS: FilterState = {
+  workerId: '',
+  territoryId: '',
+  status: 'all',
+  dateFrom: '',
+  dateTo: '',
+};
+
+export function toSession(doc: QueryDocumentSnapshot<DocumentData>): Session {
+  return { id: doc.id, ...doc.data() } as Session;
+}
+
+// A larger territory scope is queried in groups and the results merged
+export function splitTerritoryScope(territoryScope: string[] | null): (string[] | null)[] {
+  if (!territoryScope) return [null];
+
+  const groups: string[][] = [];
+  for (let i = 0; i < territoryScope.length; i += MAX_IN_FILTER_VALUES) {
+    groups.push(territoryScope.slice(i, i + MAX_IN_FILTER_VALUES));
+  }
+  return groups;
+}
+
+// A territory filter narrows the scope to one territory, so it needs a single
+// query; one outside the scope needs none, it can't match anything
+export function getScopeGroups(filters: SessionQueryFilters, territoryScope: string[] | null): (string[] | null)[] {
+  if (!filters.territoryId) return splitTerritoryScope(territoryScope);
+  return !territoryScope || territoryScope.includes(filters.territoryId) ? [null] : [];
+}
+
+// Newest first, ties broken by id the way Firestore orders them, so a merged
+// page can continue from its last document with startAfter
+export function compareSessionDocs(a: QueryDocumentSnapshot<DocumentData>, b: QueryDocumentSnapshot<DocumentData>): number {
+  const diff = (b.get('startTime')?.toMillis?.() || 0) - (a.get('startTime')?.toMillis?.() || 0);
+  if (diff !== 0) return diff;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export function getDayStart(date: string): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export function getDayEnd(date: string): Date {
+  const day = new Date(date);
+  day.setHours(23, 59, 59, 999);
+  return day;
+}
+
+// Every combination used here has a composite index in firestore.indexes.json.
+// scopeGroup is one group from getScopeGroups, which already checked a
+// territory filter against the viewer's scope.
+export function buildSessionConstraints(filters: SessionQueryFilters, scopeGroup: string[] | null): QueryConstraint[] {
+  const constraints: QueryConstraint[] = [];
+
+  if (filters.workerId) {
+    constraints.push(where('workerId', '==', filters.workerId));
+  }
+
+  if (filters.territoryId) {
+    constraints.push(where('territoryId', '==', filters.territoryId));
+  } else if (scopeGroup) {
+    constraints.push(where('territoryId', 'in', scopeGroup));
+  }
+
+  if (filters.status && filters.status !== 'all') {
+    constraints.push(where('status', '==', filters.status));
+  }
+
+  if (filters.dateFrom) {
+    constraints.push(where('startTime', '>=', getDayStart(filters.dateFrom)));
+  }
+
+  if (filters.dateTo) {
+    constraints.push(where('startTime', '<=', getDayEnd(filters.dateTo)));
+  }
+
+  return constraints;
+}
+
+// The same filters as buildSessionConstraints, checked against a loaded session
+export function matchesSessionFilters(session: Session, filters: SessionQueryFilters, territoryScope: string[] | null): boolean {
+  if (filters.workerId && session.workerId !== filters.workerId) return false;
+
+  if (filters.territoryId && session.territoryId !== filters.territoryId) return false;
+  if (territoryScope && !territoryScope.includes(session.territoryId || '')) return false;
+
+  if (filters.status && filters.status !== 'all' && session.status !== filters.status) return false;
+
+  const startTime: Date | undefined = session.startTime?.toDate?.();
+  if (filters.dateFrom && (!startTime || startTime < getDayStart(filters.dateFrom))) return false;
+  if (filters.dateTo && (!startTime || startTime > getDayEnd(filters.dateTo))) return false;
+
+  return true;
+}
+
+export function buildSessionQuery(
+  filters: SessionQueryFilters,
+  scopeGroup: string[] | null,
+  ...extra: QueryConstraint[]
+): Query<DocumentData> {
+  return query(
+    collection(db, 'sessions'),
+    ...buildSessionConstraints(filters, scopeGroup),
+    orderBy('startTime', 'desc'),
+    ...extra
+  );
+}
+
+// Calls onNext with the documents of every group once each group has reported
+export function onScopedSnapshot(
+  scopeGroups: (string[] | null)[],
+  buildQuery: (scopeGroup: string[] | null) => Query<DocumentData>,
+  onNext: (docs: QueryDocumentSnapshot<DocumentData>[]) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe {
+  // Nothing to listen to still reports an empty result, asynchronously like a snapshot
+  if (scopeGroups.length === 0) {
+    let active = true;
+    Promise.resolve().then(() => {
+      if (active) onNext([]);
+    });
+    return () => {
+      active = false;
+    };
+  }
+
+  const docsByGroup: (QueryDocumentSnapshot<DocumentData>[] | undefined)[] = scopeGroups.map(() => undefined);
+
+  const unsubscribes = scopeGroups.map((group, index) => onSnapshot(buildQuery(group), (snapshot) => {
+    docsByGroup[index] = snapshot.docs;
+    if (docsByGroup.every(docs => docs !== undefined)) {
+      onNext(docsByGroup.flatMap(docs => docs || []));
+    }
+  }, onError));
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+}
+
+async function fetchSessionDocs(
+  filters: SessionQueryFilters,
+  territoryScope: string[] | null,
+  ...extra: QueryConstraint[]
+): Promise<QueryDocumentSnapshot<DocumentData>[]> {
+  const snapshots = await Promise.all(getScopeGroups(filters, territoryScope).map(group =>
+    getDocs(buildSessionQuery(filters, group, ...extra))
+  ));
+  return snapshots.flatMap(snapshot => snapshot.docs).sort(compareSessionDocs);
+}
+
+export async function fetchSessionPage(
+  filters: SessionQueryFilters,
+  territoryScope: string[] | null,
+  after: QueryDocumentSnapshot<DocumentData> | null
+): Promise<SessionPage> {
+  const docs = await fetchSessionDocs(
+    filters,
+    territoryScope,
+    ...(after ? [startAfter(after)] : []),
+    limit(SESSION_PAGE_SIZE)
+  );
+  const pageDocs = docs.slice(0, SESSION_PAGE_SIZE);
+
+  return {
+    sessions: pageDocs.map(toSession),
+    lastDoc: pageDocs[pageDocs.length - 1] || null,
+    hasMore: docs.length >= SESSION_PAGE_SIZE,
+  };
+}
+
+export async function fetchLatestSession(filters: SessionQueryFilters, territoryScope: string[] | null): Promise<Session | null> {
+  const docs = await fetchSessionDocs(filters, territoryScope, limit(1));
+  return docs[0] ? toSession(docs[0]) : null;
+}
+
+// Count aggregations are billed per 1000 index entries, not per document
+export async function countSessions(filters: SessionQueryFilters, territoryScope: string[] | null): Promise<number> {
+  const snapshots = await Promise.all(getScopeGroups(filters, territoryScope).map(group =>
+    getCountFromServer(query(
+      collection(db, 'sessions'),
+      ...buildSessionConstraints(filters, group)
+    ))
+  ));
+  return snapshots.reduce((sum, snapshot) => sum + snapshot.data().count, 0);
+}
+
+export async function countSessionsEndedBetween(from: Date, to: Date, territoryScope: string[] | null): Promise<number> {
+  const snapshots = await Promise.all(splitTerritoryScope(territoryScope).map(group =>
+    getCountFromServer(query(
+      collection(db, 'sessions'),
+      ...(group ? [where('territoryId', 'in', group)] : []),
+      where('endTime', '>=', from),
+      where('endTime', '<', to)
+    ))
+  ));
+  return snapshots.reduce((sum, snapshot) => sum + snapshot.data().count, 0);
+}
+
+// For exports and reports, which need every matching session rather than a page
+export async function fetchAllSessions(filters: SessionQueryFilters, territoryScope: string[] | null): Promise<Session[]> {
+  const docs = await fetchSessionDocs(filters, territoryScope);
+  return docs.map(toSession);
+}
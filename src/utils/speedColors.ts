@@ -1,3 +1,5 @@
+import { simplifyPath } from './geometry';
+
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371e3;
   const φ1 = lat1 * Math.PI / 180;
@@ -70,6 +72,47 @@ export function createSpeedSegments(locations: any[]): SpeedSegment[] {
   return segments;
 }
 
+// Joins consecutive same-colour segments that share an endpoint, so a route
+// renders as a handful of polylines instead of one per pair of points
+export function mergeSpeedSegments(segments: SpeedSegment[]): SpeedSegment[] {
+  const merged: SpeedSegment[] = [];
+  let speedSum = 0;
+  let count = 0;
+
+  segments.forEach(segment => {
+    const current = merged[merged.length - 1];
+    const lastPosition = current?.positions[current.positions.length - 1];
+    const connects = lastPosition &&
+      lastPosition[0] === segment.positions[0][0] &&
+      lastPosition[1] === segment.positions[0][1];
+
+    if (current && current.color === segment.color && connects) {
+      current.positions.push(...segment.positions.slice(1));
+      speedSum += segment.speedKmh;
+      count++;
+      current.speedKmh = speedSum / count;
+    } else {
+      merged.push({ ...segment, positions: [...segment.positions] });
+      speedSum = segment.speedKmh;
+      count = 1;
+    }
+  });
+
+  return merged;
+}
+
+// About one screen pixel in metres at the given zoom
+export function getSimplifyTolerance(zoom: number, latitude: number): number {
+  return (156543.03 * Math.cos((latitude * Math.PI) / 180)) / Math.pow(2, zoom);
+}
+
+export function simplifySpeedSegments(segments: SpeedSegment[], toleranceMeters: number): SpeedSegment[] {
+  return segments.map(segment => ({
+    ...segment,
+    positions: simplifyPath(segment.positions, toleranceMeters),
+  }));
+}
+
 export function getSpeedLegend() {
   return [
     { color: '#10B981', label: '0-5 km/h (Stoji)', range: '0-5' },
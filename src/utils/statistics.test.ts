@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationPoint } from '../types';
+import { calculateSessionStats } from './statistics';
+import { cleanLocations } from './gpsFilter';
+
+const START = new Date('2026-03-10T09:00:00');
+const POINT_INTERVAL_MS = 10 * 1000;
+
+// About 1.1 m/s north; the device reports a bogus speed on every point
+function walkingPoints(count: number): LocationPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    latitude: 43.5 + i * 0.0001,
+    longitude: 16.4,
+    speed: 30,
+    accuracy: 5,
+    timestamp: new Date(START.getTime() + i * POINT_INTERVAL_MS),
+    timestampMs: START.getTime() + i * POINT_INTERVAL_MS,
+  }));
+}
+
+describe('calculateSessionStats', () => {
+  it('derives speeds from the points rather than the device speed field', () => {
+    const stats = calculateSessionStats(walkingPoints(10), START, new Date(START.getTime() + 90 * 1000));
+
+    expect(stats.maxSpeedKmh).toBeCloseTo(4, 0);
+    expect(stats.averageSpeedKmh).toBeCloseTo(4, 0);
+  });
+
+  it('drops the max speed once an outlier point is filtered out', () => {
+    const points = walkingPoints(10);
+    points[5] = { ...points[5], latitude: points[5].latitude + 0.01 }; // about 1 km off the route
+    const end = new Date(START.getTime() + 90 * 1000);
+
+    const rawStats = calculateSessionStats(points, START, end);
+    const cleaned = cleanLocations(points);
+    const cleanedStats = calculateSessionStats(cleaned.locations, START, end);
+
+    expect(cleaned.removedBySpeed).toBe(1);
+    expect(rawStats.maxSpeedKmh).toBeGreaterThan(100);
+    expect(cleanedStats.maxSpeedKmh).toBeLessThan(10);
+  });
+});
@@ -1,4 +1,5 @@
 import type { LocationPoint } from '../types';
+import type { Stop } from './stops';
 
 export interface SessionStats {
   totalDistance: number; // meters
@@ -9,10 +10,12 @@ export interface SessionStats {
   maxSpeedKmh: number; // km/h
   duration: number; // seconds
   durationFormatted: string; // "2h 15m"
+  stoppedTime: number; // seconds spent in detected stops
+  movingTime: number; // seconds
 }
 
 // Haversine formula - calculate distance between two GPS points
-function calculateDistance(
+export function calculateDistance(
   lat1: number,
   lon1: number,
   lat2: number,
@@ -32,10 +35,17 @@ function calculateDistance(
   return R * c; // Distance in meters
 }
 
+export function getPointTimeMs(point: LocationPoint): number {
+  if (point.timestampMs) return point.timestampMs;
+  if (point.timestamp instanceof Date) return point.timestamp.getTime();
+  return point.timestamp?.toMillis?.() || 0;
+}
+
 export function calculateSessionStats(
   locations: LocationPoint[],
   startTime: Date,
-  endTime: Date | null
+  endTime: Date | null,
+  stops: Stop[] = []
 ): SessionStats {
   if (locations.length === 0) {
     return {
@@ -47,11 +57,16 @@ export function calculateSessionStats(
       maxSpeedKmh: 0,
       duration: 0,
       durationFormatted: '0m',
+      stoppedTime: 0,
+      movingTime: 0,
     };
   }
 
-  // Calculate total distance
+  // Distance and speeds come from the same consecutive points, so points a
+  // filter removed can't inflate either; the device's own speed field isn't used
   let totalDistance = 0;
+  let movingSeconds = 0;
+  let maxSpeed = 0;
   for (let i = 1; i < locations.length; i++) {
     const distance = calculateDistance(
       locations[i - 1].latitude,
@@ -60,12 +75,15 @@ export function calculateSessionStats(
       locations[i].longitude
     );
     totalDistance += distance;
+
+    const seconds = (getPointTimeMs(locations[i]) - getPointTimeMs(locations[i - 1])) / 1000;
+    if (seconds > 0) {
+      movingSeconds += seconds;
+      maxSpeed = Math.max(maxSpeed, distance / seconds);
+    }
   }
 
-  // Calculate speeds
-  const speeds = locations.map(loc => loc.speed || 0);
-  const averageSpeed = speeds.reduce((a, b) => a + b, 0) / speeds.length;
-  const maxSpeed = Math.max(...speeds);
+  const averageSpeed = movingSeconds > 0 ? totalDistance / movingSeconds : 0;
 
   // Calculate duration
   const end = endTime || new Date();
@@ -77,6 +95,8 @@ export function calculateSessionStats(
   const durationFormatted =
     hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
 
+  const stoppedTime = Math.round(stops.reduce((sum, stop) => sum + stop.durationMs, 0) / 1000);
+
   return {
     totalDistance,
     totalDistanceKm: totalDistance / 1000,
@@ -86,6 +106,8 @@ export function calculateSessionStats(
     maxSpeedKmh: maxSpeed * 3.6,
     duration,
     durationFormatted,
+    stoppedTime,
+    movingTime: Math.max(0, duration - stoppedTime),
   };
 }
 
@@ -0,0 +1,60 @@
+import type { LocationPoint } from '../types';
+import { calculateDistance, getPointTimeMs } from './statistics';
+
+export const DEFAULT_STOP_RADIUS_M = 30;
+export const DEFAULT_STOP_MIN_DURATION_MIN = 5;
+
+export interface Stop {
+  startIndex: number;
+  endIndex: number;
+  latitude: number; // centroid of the clustered points
+  longitude: number;
+  startMs: number;
+  endMs: number;
+  durationMs: number;
+}
+
+// A stop is a run of consecutive points that all stay within the radius of the
+// run's first point for at least the minimum duration
+export function detectStops(
+  locations: LocationPoint[],
+  radiusMeters: number = DEFAULT_STOP_RADIUS_M,
+  minDurationMinutes: number = DEFAULT_STOP_MIN_DURATION_MIN
+): Stop[] {
+  const stops: Stop[] = [];
+  const minDurationMs = minDurationMinutes * 60 * 1000;
+  let i = 0;
+
+  while (i < locations.length) {
+    const anchor = locations[i];
+    let j = i + 1;
+
+    while (
+      j < locations.length &&
+      calculateDistance(anchor.latitude, anchor.longitude, locations[j].latitude, locations[j].longitude) <= radiusMeters
+    ) {
+      j++;
+    }
+
+    const startMs = getPointTimeMs(anchor);
+    const endMs = getPointTimeMs(locations[j - 1]);
+
+    if (j - 1 > i && endMs - startMs >= minDurationMs) {
+      const cluster = locations.slice(i, j);
+      stops.push({
+        startIndex: i,
+        endIndex: j - 1,
+        latitude: cluster.reduce((sum, p) => sum + p.latitude, 0) / cluster.length,
+        longitude: cluster.reduce((sum, p) => sum + p.longitude, 0) / cluster.length,
+        startMs,
+        endMs,
+        durationMs: endMs - startMs,
+      });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  return stops;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { getImportError, parseGeoJSON } from './territoryImport';
+
+const SQUARE = [[16.4, 43.5], [16.41, 43.5], [16.41, 43.51], [16.4, 43.51], [16.4, 43.5]];
+
+function featureCollection(names: unknown[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: names.map(name => ({
+      type: 'Feature',
+      properties: { name },
+      geometry: { type: 'Polygon', coordinates: [SQUARE] },
+    })),
+  });
+}
+
+describe('getImportError', () => {
+  it('accepts a named polygon', () => {
+    const [item] = parseGeoJSON(featureCollection(['Split - Centar']));
+    expect(getImportError(item)).toBeNull();
+  });
+
+  it('flags empty and whitespace-only names', () => {
+    const items = parseGeoJSON(featureCollection(['', '   ']));
+    expect(items.map(getImportError)).toEqual(['Naziv terena je obavezan', 'Naziv terena je obavezan']);
+  });
+
+  it('clears the error once the name is filled in', () => {
+    const [item] = parseGeoJSON(featureCollection(['  ']));
+    expect(getImportError({ ...item, name: 'Split - Centar' })).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+import type { Territory } from '../types';
+
+// GeoJSON order: [longitude, latitude]
+export type Ring = [number, number][];
+
+export interface ImportedTerritory {
+  key: string;
+  name: string;
+  folder: string;
+  ring: Ring;
+  error: string | null;
+}
+
+export const TERRITORY_COLORS = [
+  '#10B981',
+  '#3B82F6',
+  '#F59E0B',
+  '#EF4444',
+  '#8B5CF6',
+  '#EC4899',
+  '#14B8A6',
+  '#F97316',
+];
+
+let importCounter = 0;
+
+function createImported(name: string, folder: string, ring: Ring): ImportedTerritory {
+  importCounter++;
+  return {
+    key: `import-${importCounter}`,
+    name,
+    folder,
+    ring,
+    error: validateRing(ring),
+  };
+}
+
+export function validateRing(ring: Ring): string | null {
+  if (ring.some(([lng, lat]) => !Number.isFinite(lng) || !Number.isFinite(lat))) {
+    return 'Neispravne koordinate';
+  }
+
+  if (ring.some(([lng, lat]) => Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+    return 'Koordinate izvan dopuštenog raspona';
+  }
+
+  const distinct = new Set(ring.map(([lng, lat]) => `${lng},${lat}`));
+  if (distinct.size < 3) {
+    return 'Poligon mora imati barem 3 točke';
+  }
+
+  return null;
+}
+
+// Names stay editable in the preview, so this is checked against the current
+// name rather than stored with the geometry error
+export function validateName(name: string): string | null {
+  return name.trim() ? null : 'Naziv terena je obavezan';
+}
+
+export function getImportError(item: { name: string; error: string | null }): string | null {
+  return item.error || validateName(item.name);
+}
+
+function closeRing(ring: Ring): Ring {
+  if (ring.length === 0) return ring;
+  const [firstLng, firstLat] = ring[0];
+  const [lastLng, lastLat] = ring[ring.length - 1];
+  if (firstLng === lastLng && firstLat === lastLat) return ring;
+  return [...ring, [firstLng, firstLat]];
+}
+
+function parseKmlCoordinates(text: string): Ring {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => {
+      const [lng, lat] = tuple.split(',').map(Number);
+      return [lng, lat] as [number, number];
+    });
+}
+
+function getChildText(element: Element, tagName: string): string {
+  const child = Array.from(element.children).find(c => c.localName === tagName);
+  return child?.textContent?.trim() || '';
+}
+
+function getFolderName(placemark: Element): string {
+  let parent = placemark.parentElement;
+  while (parent) {
+    if (parent.localName === 'Folder') {
+      return getChildText(parent, 'name');
+    }
+    parent = parent.parentElement;
+  }
+  return '';
+}
+
+export function parseKML(text: string): ImportedTerritory[] {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Datoteka nije ispravan KML');
+  }
+
+  const results: ImportedTerritory[] = [];
+  const placemarks = Array.from(xml.getElementsByTagNameNS('*', 'Placemark'));
+
+  placemarks.forEach((placemark, index) => {
+    const name = getChildText(placemark, 'name') || `Teren ${index + 1}`;
+    const folder = getFolderName(placemark);
+    const polygons = Array.from(placemark.getElementsByTagNameNS('*', 'Polygon'));
+
+    polygons.forEach((polygon, polygonIndex) => {
+      const outer = polygon.getElementsByTagNameNS('*', 'outerBoundaryIs')[0];
+      const coordinates = outer?.getElementsByTagNameNS('*', 'coordinates')[0];
+      const ring = closeRing(parseKmlCoordinates(coordinates?.textContent || ''));
+      const polygonName = polygons.length > 1 ? `${name} (${polygonIndex + 1})` : name;
+
+      results.push(createImported(polygonName, folder, ring));
+    });
+  });
+
+  return results;
+}
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  properties?: Record<string, unknown> | null;
+  geometry: GeoJSONGeometry | null;
+}
+
+function toRing(coordinates: unknown): Ring {
+  if (!Array.isArray(coordinates)) return [];
+  return closeRing(coordinates.map(coord =>
+    Array.isArray(coord) ? [Number(coord[0]), Number(coord[1])] as [number, number] : [NaN, NaN]
+  ));
+}
+
+function geometryToTerritories(
+  geometry: GeoJSONGeometry | null,
+  name: string,
+  folder: string
+): ImportedTerritory[] {
+  if (!geometry) {
+    return [createImported(name, folder, [])];
+  }
+
+  if (geometry.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+    return [createImported(name, folder, toRing(geometry.coordinates[0]))];
+  }
+
+  if (geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    const polygons = geometry.coordinates as unknown[][];
+    return polygons.map((polygon, index) =>
+      createImported(
+        polygons.length > 1 ? `${name} (${index + 1})` : name,
+        folder,
+        toRing(polygon?.[0])
+      )
+    );
+  }
+
+  const unsupported = createImported(name, folder, []);
+  unsupported.error = `Nepodržana geometrija: ${geometry.type}`;
+  return [unsupported];
+}
+
+export function parseGeoJSON(text: string): ImportedTerritory[] {
+  let data: { type?: string; features?: GeoJSONFeature[]; coordinates?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Datoteka nije ispravan GeoJSON');
+  }
+
+  let features: GeoJSONFeature[];
+  if (!data || typeof data !== 'object') {
+    throw new Error('Datoteka nije ispravan GeoJSON');
+  } else if (data.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    features = data.features;
+  } else if (data.type === 'Feature') {
+    features = [data as unknown as GeoJSONFeature];
+  } else if (data.type && data.coordinates) {
+    features = [{ type: 'Feature', properties: {}, geometry: data as GeoJSONGeometry }];
+  } else {
+    throw new Error('Datoteka nije ispravan GeoJSON');
+  }
+
+  return features.flatMap((feature, index) => {
+    const properties = feature.properties || {};
+    const name = String(properties.name ?? properties.Name ?? `Teren ${index + 1}`);
+    const folder = String(properties.folder ?? properties.Folder ?? '');
+    return geometryToTerritories(feature.geometry, name, folder);
+  });
+}
+
+export function parseTerritoryFile(fileName: string, text: string): ImportedTerritory[] {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  if (extension === 'kml') return parseKML(text);
+  if (extension === 'geojson' || extension === 'json') return parseGeoJSON(text);
+
+  throw new Error('Podržane su samo .kml, .geojson i .json datoteke');
+}
+
+export function ringToBoundaryGeoJSON(ring: Ring): string {
+  return JSON.stringify({ type: 'Polygon', coordinates: [ring] });
+}
+
+function ringSignature(ring: Ring): string {
+  return ring.map(([lng, lat]) => `${lng.toFixed(6)},${lat.toFixed(6)}`).join(';');
+}
+
+// Warnings per import key: name clashes with existing territories or within
+// the file itself, and polygons whose geometry is already stored
+export function findDuplicates(
+  imported: { key: string; name: string; ring: Ring }[],
+  existing: Territory[]
+): Map<string, string> {
+  const warnings = new Map<string, string>();
+  const existingNames = new Set(existing.map(t => t.name.trim().toLowerCase()));
+  const existingGeometries = new Set<string>();
+
+  existing.forEach(territory => {
+    try {
+      const geoJSON = JSON.parse(territory.boundaryGeoJSON);
+      existingGeometries.add(ringSignature(geoJSON.coordinates[0]));
+    } catch {
+      // Territories with broken boundaries can't be matched by geometry
+    }
+  });
+
+  const nameCounts = new Map<string, number>();
+  imported.forEach(item => {
+    const name = item.name.trim().toLowerCase();
+    nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+  });
+
+  imported.forEach(item => {
+    const name = item.name.trim().toLowerCase();
+    if (existingGeometries.has(ringSignature(item.ring))) {
+      warnings.set(item.key, 'Isti poligon već postoji');
+    } else if (existingNames.has(name)) {
+      warnings.set(item.key, 'Teren s ovim imenom već postoji');
+    } else if ((nameCounts.get(name) || 0) > 1) {
+      warnings.set(item.key, 'Ime se ponavlja u datoteci');
+    }
+  });
+
+  return warnings;
+}
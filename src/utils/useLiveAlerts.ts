@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { LocationPoint, Session } from '../types';
+import { getPointTimeMs } from './statistics';
+import { cleanLocations, loadGpsFilterConfig } from './gpsFilter';
+import { parseTerritoryBoundary, type LatLngTuple } from './geometry';
+import type { PointsBySession } from './useLivePoints';
+import {
+  ALERT_CHECK_INTERVAL_MS,
+  ALERT_LOOKBACK_MS,
+  evaluateLiveAlerts,
+  isAlertDismissed,
+  keepConditionStarts,
+  loadAlertDismissals,
+  resolveAlertRules,
+  saveAlertDismissals,
+  type AlertConfig,
+  type AlertDismissals,
+  type LiveAlert,
+} from './liveAlerts';
+
+// Points are in time order, so the window starts after the last older point
+function getRecentPoints(points: LocationPoint[], nowMs: number): LocationPoint[] {
+  const minMs = nowMs - ALERT_LOOKBACK_MS;
+  let start = points.length;
+  while (start > 0 && getPointTimeMs(points[start - 1]) >= minMs) start--;
+  return points.slice(start);
+}
+
+export interface LiveAlertsState {
+  alerts: LiveAlert[]; // not acknowledged or snoozed, oldest first
+  hiddenCount: number;
+  acknowledge: (alert: LiveAlert) => void;
+  snooze: (alert: LiveAlert, minutes: number) => void;
+}
+
+// Runs on the shared point streams from useLivePoints, looking only at the
+// recent window of each session
+export function useLiveAlerts(sessions: Session[], pointsBySession: PointsBySession, config: AlertConfig): LiveAlertsState {
+  const [boundaries, setBoundaries] = useState<Record<string, LatLngTuple[]>>({});
+  const [dismissals, setDismissals] = useState<AlertDismissals>(loadAlertDismissals);
+  const [now, setNow] = useState(() => Date.now());
+  const requestedTerritoriesRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), ALERT_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    sessions.forEach(async session => {
+      const territoryId = session.territoryId;
+      if (!territoryId || requestedTerritoriesRef.current.has(territoryId)) return;
+      requestedTerritoriesRef.current.add(territoryId);
+
+      try {
+        const territoryDoc = await getDoc(doc(db, 'territories', territoryId));
+        const boundary = parseTerritoryBoundary(territoryDoc.data()?.boundaryGeoJSON);
+        setBoundaries(prev => ({ ...prev, [territoryId]: boundary }));
+      } catch (error) {
+        console.error('Error loading territory for alerts:', error);
+        requestedTerritoriesRef.current.delete(territoryId);
+      }
+    });
+  }, [sessions]);
+
+  const evaluatedAlerts = useMemo(() => {
+    const filterConfig = loadGpsFilterConfig();
+
+    return sessions.flatMap(session => evaluateLiveAlerts(
+      session,
+      cleanLocations(getRecentPoints(pointsBySession[session.id] || [], now), filterConfig).locations,
+      session.territoryId ? boundaries[session.territoryId] || null : null,
+      resolveAlertRules(config, session),
+      now
+    ));
+  }, [sessions, pointsBySession, boundaries, config, now]);
+
+  // Tracked per check rather than derived, since a start only stays put while
+  // every check in between still reported the alert
+  const [tracked, setTracked] = useState<{ evaluated: LiveAlert[]; alerts: LiveAlert[] }>({ evaluated: [], alerts: [] });
+  if (tracked.evaluated !== evaluatedAlerts) {
+    setTracked({ evaluated: evaluatedAlerts, alerts: keepConditionStarts(evaluatedAlerts, tracked.alerts) });
+  }
+  const allAlerts = tracked.alerts;
+
+  const alerts = useMemo(
+    () => allAlerts
+      .filter(alert => !isAlertDismissed(alert, dismissals, now))
+      .sort((a, b) => a.since - b.since),
+    [allAlerts, dismissals, now]
+  );
+
+  const updateDismissals = (next: AlertDismissals) => {
+    setDismissals(next);
+    saveAlertDismissals(next);
+  };
+
+  const acknowledge = (alert: LiveAlert) => {
+    updateDismissals({
+      ...dismissals,
+      acknowledged: { ...dismissals.acknowledged, [alert.id]: Date.now() },
+    });
+  };
+
+  const snooze = (alert: LiveAlert, minutes: number) => {
+    updateDismissals({
+      ...dismissals,
+      snoozedUntil: { ...dismissals.snoozedUntil, [alert.id]: Date.now() + minutes * 60 * 1000 },
+    });
+  };
+
+  return { alerts, hiddenCount: allAlerts.length - alerts.length, acknowledge, snooze };
+}
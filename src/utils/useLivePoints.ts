@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { collection, query, where, orderBy, onSnapshot, type Unsubscribe } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { LocationPoint, Session } from '../types';
+import { cacheService } from './cacheService';
+
+export type PointsBySession = Record<string, LocationPoint[]>;
+
+// Firestore retries dropped connections itself; this only covers listeners it gave up on
+const RESUBSCRIBE_DELAY_MS = 5000;
+
+// One point stream per active session, resumed from the cache, shared by the
+// live map and the live alerts so every point is read once
+export function useLivePoints(sessions: Session[]): PointsBySession {
+  const [pointsBySession, setPointsBySession] = useState<PointsBySession>({});
+  const listenersRef = useRef<Map<string, Unsubscribe>>(new Map());
+  const retryTimersRef = useRef<Map<string, number>>(new Map());
+  const activeIdsRef = useRef<Set<string>>(new Set());
+  const lastTimestampsRef = useRef<Map<string, number>>(new Map());
+
+  // Listeners are diffed against the active sessions, so an unrelated session
+  // update doesn't tear down and re-read every stream
+  useEffect(() => {
+    // Ended sessions are dropped whenever the points change
+    const updatePoints = (sessionId: string, update: (points: LocationPoint[]) => LocationPoint[]) => {
+      setPointsBySession(prev => {
+        const next: PointsBySession = {};
+        Object.keys(prev).forEach(id => {
+          if (activeIdsRef.current.has(id)) next[id] = prev[id];
+        });
+        next[sessionId] = update(next[sessionId] || []);
+        return next;
+      });
+    };
+
+    const subscribeToSession = (session: Session) => {
+      const lastTimestamp = lastTimestampsRef.current.get(session.id) || 0;
+      console.log(`📡 Streaming points for ${session.workerName} after ${lastTimestamp}`);
+
+      const pointsQuery = query(
+        collection(db, 'locations', session.id, 'points'),
+        where('timestampMs', '>', lastTimestamp),
+        orderBy('timestampMs', 'asc')
+      );
+
+      const unsubscribe = onSnapshot(pointsQuery, (snapshot) => {
+        const knownTimestamp = lastTimestampsRef.current.get(session.id) || 0;
+        const newPoints = snapshot.docChanges()
+          .filter(change => change.type === 'added')
+          .map(change => change.doc.data() as LocationPoint)
+          .filter(point => (point.timestampMs || 0) > knownTimestamp);
+
+        if (newPoints.length === 0) return;
+
+        console.log(`📍 Received ${newPoints.length} new points for session ${session.id}`);
+
+        lastTimestampsRef.current.set(session.id, newPoints[newPoints.length - 1].timestampMs || Date.now());
+        // A stream from the start carries every point, so it can seed the cache
+        if (knownTimestamp === 0) {
+          cacheService.saveSessionPoints(session.id, newPoints);
+        } else {
+          cacheService.appendPoints(session.id, newPoints);
+        }
+
+        updatePoints(session.id, points => [...points, ...newPoints]);
+      }, (error) => {
+        console.error(`❌ Point stream failed for ${session.id}:`, error);
+        listenersRef.current.delete(session.id);
+
+        const timer = window.setTimeout(() => {
+          retryTimersRef.current.delete(session.id);
+          if (activeIdsRef.current.has(session.id)) {
+            subscribeToSession(session);
+          }
+        }, RESUBSCRIBE_DELAY_MS);
+        retryTimersRef.current.set(session.id, timer);
+      });
+
+      listenersRef.current.set(session.id, unsubscribe);
+    };
+
+    const activeIds = new Set(sessions.map(s => s.id));
+    activeIdsRef.current = activeIds;
+
+    listenersRef.current.forEach((unsubscribe, sessionId) => {
+      if (activeIds.has(sessionId)) return;
+      console.log(`🛑 Stopping point stream for ended session ${sessionId}`);
+      unsubscribe();
+      listenersRef.current.delete(sessionId);
+      lastTimestampsRef.current.delete(sessionId);
+      cacheService.stopStreaming(sessionId);
+    });
+
+    retryTimersRef.current.forEach((timer, sessionId) => {
+      if (activeIds.has(sessionId)) return;
+      clearTimeout(timer);
+      retryTimersRef.current.delete(sessionId);
+      cacheService.stopStreaming(sessionId);
+    });
+
+    const started = sessions.filter(s =>
+      !listenersRef.current.has(s.id) && !retryTimersRef.current.has(s.id)
+    );
+
+    started.forEach(async session => {
+      // Reserves the slot so a re-render doesn't start a second stream while the cache loads
+      const pending = () => {};
+      listenersRef.current.set(session.id, pending);
+      cacheService.startStreaming(session.id);
+
+      const cached = await cacheService.loadSessionPoints(session.id);
+      if (listenersRef.current.get(session.id) !== pending) return;
+
+      if (cached && cached.points.length > 0) {
+        console.log(`💾 Resuming ${session.workerName} from ${cached.points.length} cached points`);
+        lastTimestampsRef.current.set(session.id, cached.lastTimestamp);
+        updatePoints(session.id, points => [...cached.points, ...points]);
+      }
+
+      subscribeToSession(session);
+    });
+  }, [sessions]);
+
+  useEffect(() => {
+    const listeners = listenersRef.current;
+    const retryTimers = retryTimersRef.current;
+
+    return () => {
+      listeners.forEach((unsubscribe, sessionId) => {
+        unsubscribe();
+        cacheService.stopStreaming(sessionId);
+      });
+      listeners.clear();
+      retryTimers.forEach((timer, sessionId) => {
+        clearTimeout(timer);
+        cacheService.stopStreaming(sessionId);
+      });
+      retryTimers.clear();
+    };
+  }, []);
+
+  return pointsBySession;
+}
@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import { collection, query, where, onSnapshot, doc, getDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { Session } from '../types';
+import { ALERT_TYPE_LABELS, type LiveAlert } from './liveAlerts';
+import { loadNotificationHistory, notify } from './notifications';
+import { splitTerritoryScope } from './sessionQuery';
+
+// Turns session starts, ends and live alerts into notifications for the signed-in user
+export function useSessionNotifications(uid: string | null, territoryScope: string[] | null, alerts: LiveAlert[]): void {
+  useEffect(() => {
+    if (!uid || territoryScope?.length === 0) return;
+
+    // Each scope group gets its own listener, since changes are read per snapshot
+    const unsubscribes = splitTerritoryScope(territoryScope).map(scopeGroup => {
+      const activeQuery = query(
+        collection(db, 'sessions'),
+        where('status', '==', 'active'),
+        ...(scopeGroup ? [where('territoryId', 'in', scopeGroup)] : [])
+      );
+
+      // The first snapshot lists sessions that were already running, not new ones
+      let initialized = false;
+
+      return onSnapshot(activeQuery, (snapshot) => {
+        if (!initialized) {
+          initialized = true;
+          return;
+        }
+
+        snapshot.docChanges().forEach(async change => {
+          const session = { id: change.doc.id, ...change.doc.data() } as Session;
+
+          // A reopened session re-enters the active list, but it didn't just start
+          if (change.type === 'added' && !session.reopenedAt) {
+            notify(uid, {
+              type: 'session_started',
+              title: 'Sesija započeta',
+              body: session.workerName,
+              sourceId: session.id,
+            });
+          } else if (change.type === 'removed') {
+            // The removed snapshot still says active; the document has the final status
+            try {
+              const finalDoc = await getDoc(doc(db, 'sessions', session.id));
+              const autoClosed = finalDoc.data()?.status === 'auto_completed';
+              notify(uid, {
+                type: autoClosed ? 'session_auto_closed' : 'session_ended',
+                title: autoClosed ? 'Sesija automatski zatvorena' : 'Sesija završena',
+                body: session.workerName,
+                sourceId: session.id,
+              });
+            } catch (error) {
+              console.error('Error loading ended session:', error);
+            }
+          }
+        });
+      }, (error) => {
+        console.error('Error listening for session events:', error);
+      });
+    });
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [uid, territoryScope]);
+
+  // alert id -> start of the condition it was notified for
+  const notifiedRef = useRef<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    if (!uid || alerts.length === 0) return;
+
+    // One notification per condition, keyed on its start, which useLiveAlerts
+    // keeps fixed while the condition lasts. After a page reload the start is
+    // only known from the current window, so the history stands in for it.
+    const history = loadNotificationHistory(uid);
+    alerts.forEach(alert => {
+      const notifiedSince = notifiedRef.current.get(alert.id);
+      const alreadyNotified = notifiedSince !== undefined
+        ? notifiedSince === alert.since
+        : history.some(entry =>
+          entry.type === 'live_alert' && entry.sourceId === alert.id && entry.createdAt >= alert.since
+        );
+      notifiedRef.current.set(alert.id, alert.since);
+      if (alreadyNotified) return;
+
+      notify(uid, {
+        type: 'live_alert',
+        title: `${ALERT_TYPE_LABELS[alert.type]}: ${alert.session.workerName}`,
+        body: alert.message,
+        sourceId: alert.id,
+      });
+    });
+  }, [uid, alerts]);
+}
@@ -0,0 +1,53 @@
+import type { Worker } from '../types';
+
+export interface WorkerFormData {
+  name: string;
+  pin: string;
+  active: boolean;
+  assignedTerritories: string[];
+}
+
+export interface WorkerFormErrors {
+  name?: string;
+  pin?: string;
+}
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+export function validateWorker(
+  data: WorkerFormData,
+  workers: Worker[],
+  editingWorkerId: string | null
+): WorkerFormErrors {
+  const errors: WorkerFormErrors = {};
+
+  if (!data.name.trim()) {
+    errors.name = 'Ime je obavezno';
+  }
+
+  if (!PIN_PATTERN.test(data.pin)) {
+    errors.pin = 'PIN mora imati 4-6 znamenki';
+  } else if (workers.some(w => w.pin === data.pin && w.id !== editingWorkerId)) {
+    errors.pin = 'PIN već koristi drugi radnik';
+  }
+
+  return errors;
+}
+
+// Random 4-digit PIN that no other worker is using
+export function generateUniquePin(workers: Worker[]): string {
+  const usedPins = new Set(workers.map(w => w.pin));
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const pin = Math.floor(1000 + Math.random() * 9000).toString();
+    if (!usedPins.has(pin)) return pin;
+  }
+
+  // 4-digit space is nearly exhausted, fall back to 6 digits
+  let pin: string;
+  do {
+    pin = Math.floor(100000 + Math.random() * 900000).toString();
+  } while (usedPins.has(pin));
+
+  return pin;
+}